@@ -0,0 +1,63 @@
+// Runs the MediaPipe Tasks HandLandmarker off the main thread.
+// A classic worker on purpose: the tasks-vision wasm loader uses importScripts, which module
+// workers forbid, so the CommonJS bundle is loaded against a stand-in `exports` object.
+
+let landmarker = null;
+
+const createLandmarker = async (assetBaseUrl, options) => {
+  self.exports = {};
+  importScripts(`${assetBaseUrl}/tasks-vision/vision_bundle.cjs`);
+  const { FilesetResolver, HandLandmarker } = self.exports;
+
+  const fileset = await FilesetResolver.forVisionTasks(`${assetBaseUrl}/tasks-vision/wasm`);
+  const create = (delegate) => HandLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: `${assetBaseUrl}/models/hand_landmarker.task`, delegate },
+    runningMode: 'VIDEO',
+    ...options
+  });
+
+  // WebGL in a worker needs OffscreenCanvas support from the GPU driver; the CPU always works
+  try {
+    return await create('GPU');
+  } catch (error) {
+    console.warn('GPU hand tracking unavailable, using the CPU:', error);
+    return create('CPU');
+  }
+};
+
+const errorMessage = (error) => (error && error.message) || String(error);
+
+self.onmessage = async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'Init':
+      try {
+        landmarker = await createLandmarker(message.assetBaseUrl, message.options);
+        self.postMessage({ type: 'Ready' });
+      } catch (error) {
+        self.postMessage({ type: 'Error', message: errorMessage(error) });
+      }
+      break;
+
+    case 'Detect': {
+      const { id, frame, timestamp } = message;
+      try {
+        if (!landmarker) throw new Error('Hand tracker is not initialized');
+        const { landmarks, worldLandmarks, handedness } = landmarker.detectForVideo(frame, timestamp);
+        self.postMessage({ type: 'Result', id, result: { landmarks, worldLandmarks, handedness } });
+      } catch (error) {
+        self.postMessage({ type: 'Error', id, message: errorMessage(error) });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+
+    case 'Close':
+      if (landmarker) landmarker.close();
+      landmarker = null;
+      self.close();
+      break;
+  }
+};
@@ -902,16 +902,72 @@
                             this.cs.pointer,
                         );
                     }),
+                    (e.prototype.reset = function () {
+                        (m(this.hs.getArray(), 0),
+                            m(this.cs.getArray(), 0),
+                            m(this.output.getArray(), 0),
+                            this.step(c.START));
+                    }),
+                    (e.prototype.snapshot = function () {
+                        return {
+                            hs: this.hs.getArray().slice(0),
+                            cs: this.cs.getArray().slice(0),
+                            output: this.output.getArray().slice(0),
+                        };
+                    }),
+                    (e.prototype.restore = function (e) {
+                        (this.hs.getArray().set(e.hs),
+                            this.cs.getArray().set(e.cs),
+                            this.output.getArray().set(e.output));
+                    }),
                     e
                 );
             })();
-        function g() {
+        // Seeded PRNG (mulberry32) so sampled harmonies can be reproduced
+        function S(e) {
+            var t = e >>> 0;
+            return function () {
+                t = (t + 1831565813) >>> 0;
+                var r = Math.imul(t ^ (t >>> 15), 1 | t);
+                return (
+                    (r ^= r + Math.imul(r ^ (r >>> 7), 61 | r)),
+                    ((r ^ (r >>> 14)) >>> 0) / 4294967296
+                );
+            };
+        }
+        // Current output with the tokens a voice can never take masked out
+        function M() {
+            var e = y.output.getArray().slice(0);
+            return (
+                (e[c["|"]] = -999999),
+                (e[c.START] = -99999999),
+                (e[c.END] = -99999999),
+                e
+            );
+        }
+        function L(e) {
+            for (var t = -1 / 0, r = 0, n = 0; n < e.length; ++n) e[n] > t && (t = e[n]);
+            for (n = 0; n < e.length; ++n) r += Math.exp(e[n] - t);
+            var u = t + Math.log(r);
+            return Array.prototype.map.call(e, function (e) {
+                return e - u;
+            });
+        }
+        // Argmax, or a draw from the temperature-scaled softmax when sampling
+        function P(e, t) {
+            if (!t) return f(e);
+            for (var r = -1 / 0, n = 0; n < e.length; ++n) e[n] > r && (r = e[n]);
+            var u = [],
+                a = 0;
+            for (n = 0; n < e.length; ++n) ((a += Math.exp((e[n] - r) / t.temperature)), u.push(a));
+            var i = t.random() * a;
+            for (n = 0; n < u.length; ++n) if (i < u[n]) return n;
+            return f(e);
+        }
+        function g(o) {
             for (var e = [], t = 0; t < 3; ++t) {
-                var r = y.output.getArray().slice(0);
-                ((r[c["|"]] = -999999),
-                    (r[c.START] = -99999999),
-                    (r[c.END] = -99999999));
-                var n = f(r),
+                var r = M(),
+                    n = P(r, o),
                     u = r[n],
                     a = p(l[n]);
                 (e.push({ midiNote: a.midiNote, tie: a.tie, probability: u }),
@@ -919,20 +975,112 @@
             }
             return (y.step(c["|"]), e);
         }
+        // Beam search for the `e` most likely distinct voicings; the model continues from the best one
+        function A(e) {
+            for (var t = 2 * e, r = [{ notes: [], score: 0, state: y.snapshot() }], n = 0; n < 3; ++n) {
+                var u = [];
+                (r.forEach(function (e) {
+                    y.restore(e.state);
+                    var r = M(),
+                        n = L(r);
+                    Object.keys(n)
+                        .map(Number)
+                        .sort(function (e, t) {
+                            return n[t] - n[e];
+                        })
+                        .slice(0, t)
+                        .forEach(function (t) {
+                            var a = p(l[t]);
+                            u.push({
+                                parent: e,
+                                token: t,
+                                score: e.score + n[t],
+                                note: { midiNote: a.midiNote, tie: a.tie, probability: r[t] },
+                            });
+                        });
+                }),
+                    (r = u
+                        .sort(function (e, t) {
+                            return t.score - e.score;
+                        })
+                        .slice(0, t)
+                        .map(function (e) {
+                            return (
+                                y.restore(e.parent.state),
+                                y.step(e.token),
+                                {
+                                    notes: e.parent.notes.concat([e.note]),
+                                    score: e.score,
+                                    state: y.snapshot(),
+                                }
+                            );
+                        })));
+            }
+            var a = {},
+                i = r.filter(function (e) {
+                    var t = e.notes
+                        .map(function (e) {
+                            return e.midiNote;
+                        })
+                        .join(",");
+                    return !a[t] && (a[t] = !0);
+                }).slice(0, e);
+            return (
+                y.restore(i[0].state),
+                y.step(c["|"]),
+                i.map(function (e) {
+                    return e.notes;
+                })
+            );
+        }
+        // Feed a melody note in, returning its own (soprano) entry
+        function E(e) {
+            var t = h(e, !1),
+                r = { midiNote: e, tie: !1, probability: y.output.getArray()[t] };
+            return (y.step(t), r);
+        }
+        // Let the note ring for three tied steps, as in training
+        function R(e, t) {
+            (y.step(h(e, !0)), g(t), y.step(h(e, !0)), g(t), y.step(h(e, !0)), g(t));
+        }
         onmessage = function (e) {
-            var t = e.data.note,
-                r = h(t, !1),
-                n = { midiNote: t, tie: !1, probability: y.output.getArray()[r] };
-            y.step(r);
-            var u = g(),
-                a = { type: "Notes", notes: [n].concat(u) };
-            (postMessage(a),
-                y.step(h(t, !0)),
-                g(),
-                y.step(h(t, !0)),
-                g(),
-                y.step(h(t, !0)),
-                g());
+            var s = e.data;
+            if ("Reset" === s.type)
+                return (y.reset(), postMessage({ type: "Reset", id: s.id }));
+            if ("Snapshot" === s.type)
+                return postMessage({ type: "Snapshot", id: s.id, state: y.snapshot() });
+            if ("Restore" === s.type)
+                return (y.restore(s.state), postMessage({ type: "Restored", id: s.id }));
+            if ("Melody" === s.type) {
+                // Whole melody from a fresh context, leaving the live context untouched
+                var b = y.snapshot();
+                y.reset();
+                var w = s.notes.map(function (e) {
+                    var t = [E(e)].concat(g(null));
+                    return (R(e, null), t);
+                });
+                return (y.restore(b), postMessage({ type: "Chords", id: s.id, chords: w }));
+            }
+            var t = s.note,
+                o =
+                    s.temperature > 0
+                        ? { temperature: s.temperature, random: null != s.seed ? S(s.seed) : Math.random }
+                        : null,
+                n = E(t);
+            if ("Alternatives" === s.type) {
+                var x = A(Math.max(1, s.count || 1));
+                postMessage({
+                    type: "Alternatives",
+                    id: s.id,
+                    chords: x.map(function (e) {
+                        return [n].concat(e);
+                    }),
+                });
+            } else {
+                var u = g(o);
+                postMessage({ type: "Notes", id: s.id, notes: [n].concat(u) });
+            }
+            R(t, o);
         };
     },
     7: function (e, t, r) {
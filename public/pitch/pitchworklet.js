@@ -0,0 +1,110 @@
+// YIN pitch detection on the microphone, run as an AudioWorklet.
+// Loadable from Node as well (module.exports below), so the detector can be
+// checked against synthetic buffers without a browser.
+
+const DEFAULT_OPTIONS = {
+  threshold: 0.15, // YIN absolute threshold on the normalized difference
+  minFrequency: 70,
+  maxFrequency: 1100,
+  minRms: 0.01 // quieter windows count as silence
+};
+
+// { frequency, clarity } for the strongest period in the buffer, or null when unvoiced
+function detectPitch(buffer, sampleRate, options) {
+  const { threshold, minFrequency, maxFrequency, minRms } = { ...DEFAULT_OPTIONS, ...options };
+
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  if (Math.sqrt(sum / buffer.length) < minRms) return null;
+
+  const windowSize = Math.floor(buffer.length / 2);
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.min(windowSize - 1, Math.ceil(sampleRate / minFrequency));
+  if (minLag >= maxLag) return null;
+
+  // Difference function, then cumulative mean normalization
+  const normalized = new Float32Array(maxLag + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let difference = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = buffer[i] - buffer[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  // First dip under the threshold, followed down to its local minimum
+  let lag = -1;
+  for (let candidate = minLag; candidate <= maxLag; candidate++) {
+    if (normalized[candidate] < threshold) {
+      while (candidate + 1 <= maxLag && normalized[candidate + 1] < normalized[candidate]) candidate++;
+      lag = candidate;
+      break;
+    }
+  }
+  if (lag < 0) return null;
+
+  // Parabolic interpolation between neighbouring lags for sub-sample accuracy
+  let refinedLag = lag;
+  if (lag > minLag && lag < maxLag) {
+    const before = normalized[lag - 1];
+    const at = normalized[lag];
+    const after = normalized[lag + 1];
+    const curvature = before + after - 2 * at;
+    if (curvature > 0) refinedLag = lag + (before - after) / (2 * curvature);
+  }
+
+  return { frequency: sampleRate / refinedLag, clarity: 1 - normalized[lag] };
+}
+
+if (typeof registerProcessor === 'function') {
+  const WINDOW_SIZE = 2048;
+  const HOP_SIZE = 512;
+
+  class PitchDetectorProcessor extends AudioWorkletProcessor {
+    constructor(nodeOptions) {
+      super();
+      this.options = (nodeOptions && nodeOptions.processorOptions) || {};
+      this.window = new Float32Array(WINDOW_SIZE);
+      this.filled = 0;
+      this.sinceLastFrame = 0;
+    }
+
+    process(inputs) {
+      const channel = inputs[0] && inputs[0][0];
+      if (!channel) return true;
+
+      // Slide the analysis window along by each render quantum
+      const length = channel.length;
+      this.window.copyWithin(0, length);
+      this.window.set(channel, WINDOW_SIZE - length);
+      this.filled = Math.min(WINDOW_SIZE, this.filled + length);
+      this.sinceLastFrame += length;
+
+      if (this.filled === WINDOW_SIZE && this.sinceLastFrame >= HOP_SIZE) {
+        this.sinceLastFrame = 0;
+
+        let sum = 0;
+        for (let i = 0; i < WINDOW_SIZE; i++) sum += this.window[i] * this.window[i];
+        const pitch = detectPitch(this.window, sampleRate, this.options);
+
+        this.port.postMessage({
+          frequency: pitch ? pitch.frequency : null,
+          clarity: pitch ? pitch.clarity : 0,
+          rms: Math.sqrt(sum / WINDOW_SIZE),
+          time: currentTime
+        });
+      }
+      return true;
+    }
+  }
+
+  registerProcessor('pitch-detector', PitchDetectorProcessor);
+}
+
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = { detectPitch };
+}
@@ -0,0 +1,88 @@
+// Copies the hand tracker's runtime files out of node_modules into public/mediapipe,
+// so the app serves them itself at the version pinned in package.json.
+// Runs on postinstall; `node scripts/copy-mediapipe-assets.mjs` refreshes them by hand.
+import { cpSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outputRoot = join(root, 'public', 'mediapipe');
+
+// Package directory in node_modules, the files and folders it needs, and where they land under public/mediapipe
+const PACKAGES = [
+  { name: '@mediapipe/tasks-vision', target: 'tasks-vision', files: ['vision_bundle.cjs', 'wasm'] }
+];
+
+// Models are not published to npm; these URLs carry their own version, so they are pinned too
+const MODELS = [
+  {
+    file: 'hand_landmarker.task',
+    url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+  }
+];
+
+for (const { name, target, files } of PACKAGES) {
+  const source = join(root, 'node_modules', name);
+  if (!existsSync(source)) {
+    console.error(`${name} is not installed; run npm install first`);
+    process.exit(1);
+  }
+
+  const { version } = JSON.parse(readFileSync(join(source, 'package.json'), 'utf8'));
+  const destination = join(outputRoot, target);
+  rmSync(destination, { recursive: true, force: true });
+  mkdirSync(destination, { recursive: true });
+
+  files.forEach(file => cpSync(join(source, file), join(destination, file), { recursive: true }));
+  // Lets a deployment check which version it is serving
+  writeFileSync(join(destination, 'VERSION'), `${version}\n`);
+
+  console.log(`Copied ${name}@${version} to public/mediapipe/${target}`);
+}
+
+// Downloaded once and kept across installs. Without the model hand tracking cannot start, so a
+// missing one fails the install. Offline, point MEDIAPIPE_MODEL_DIR at a folder holding the files;
+// MEDIAPIPE_SKIP_MODELS=1 skips them for installs that only build, lint or test.
+const modelsDir = join(outputRoot, 'models');
+mkdirSync(modelsDir, { recursive: true });
+
+const missing = [];
+for (const { file, url } of MODELS) {
+  const destination = join(modelsDir, file);
+  if (existsSync(destination)) continue;
+
+  if (process.env.MEDIAPIPE_MODEL_DIR) {
+    const source = join(process.env.MEDIAPIPE_MODEL_DIR, file);
+    if (existsSync(source)) {
+      cpSync(source, destination);
+      console.log(`Copied ${file} from ${process.env.MEDIAPIPE_MODEL_DIR} to public/mediapipe/models`);
+    } else {
+      missing.push(`${file}: not found in MEDIAPIPE_MODEL_DIR (${process.env.MEDIAPIPE_MODEL_DIR})`);
+    }
+    continue;
+  }
+
+  if (process.env.MEDIAPIPE_SKIP_MODELS === '1') {
+    console.warn(`Skipping ${file} (MEDIAPIPE_SKIP_MODELS=1); hand tracking will not start without it`);
+    continue;
+  }
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    writeFileSync(destination, Buffer.from(await response.arrayBuffer()));
+    console.log(`Downloaded ${file} to public/mediapipe/models`);
+  } catch (error) {
+    missing.push(`${file}: download from ${url} failed (${error.message})`);
+  }
+}
+
+if (missing.length > 0) {
+  console.error([
+    'Hand tracking models are missing:',
+    ...missing.map(problem => `  ${problem}`),
+    'Download them into a folder and install with MEDIAPIPE_MODEL_DIR=<folder>,',
+    'or set MEDIAPIPE_SKIP_MODELS=1 to install without hand tracking.'
+  ].join('\n'));
+  process.exit(1);
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { audioEngine } from '../../utils/audioEngine';
+import { EffectsSettings, EffectsSettingsChanges } from '../../utils/effectsChain';
+
+type EffectName = keyof EffectsSettings;
+
+interface Control {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const EFFECTS: Array<{ effect: EffectName; label: string; controls: Control[] }> = [
+  {
+    effect: 'eq',
+    label: 'EQ',
+    controls: [
+      { name: 'low', label: 'Low', min: -12, max: 12, step: 1 },
+      { name: 'mid', label: 'Mid', min: -12, max: 12, step: 1 },
+      { name: 'high', label: 'High', min: -12, max: 12, step: 1 }
+    ]
+  },
+  {
+    effect: 'compressor',
+    label: 'Compressor',
+    controls: [
+      { name: 'threshold', label: 'Threshold', min: -48, max: 0, step: 1 },
+      { name: 'ratio', label: 'Ratio', min: 1, max: 12, step: 0.5 }
+    ]
+  },
+  {
+    effect: 'reverb',
+    label: 'Reverb',
+    controls: [
+      { name: 'mix', label: 'Mix', min: 0, max: 1, step: 0.05 },
+      { name: 'decay', label: 'Decay', min: 0.5, max: 6, step: 0.5 }
+    ]
+  },
+  {
+    effect: 'limiter',
+    label: 'Limiter',
+    controls: [
+      { name: 'ceiling', label: 'Ceiling', min: -12, max: 0, step: 0.5 }
+    ]
+  }
+];
+
+export default function EffectsPanel() {
+  const [settings, setSettings] = useState<EffectsSettings>(() => audioEngine.getEffectsSettings());
+
+  const updateEffects = useCallback((changes: EffectsSettingsChanges) => {
+    audioEngine.setEffects(changes);
+    setSettings(audioEngine.getEffectsSettings());
+  }, []);
+
+  return (
+    <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm not-italic">
+      <div className="text-black/60 text-xs mb-3 text-center">Effects</div>
+      <div className="space-y-3">
+        {EFFECTS.map(({ effect, label, controls }) => {
+          const { bypass } = settings[effect];
+          const values = settings[effect] as unknown as Record<string, number>;
+
+          return (
+            <div key={effect}>
+              <label className="flex items-center justify-between text-sm mb-1 cursor-pointer">
+                <span>{label}</span>
+                <input
+                  type="checkbox"
+                  checked={!bypass}
+                  onChange={(e) => updateEffects({ [effect]: { bypass: !e.target.checked } })}
+                  className="accent-black"
+                  aria-label={`${label} on`}
+                />
+              </label>
+              <div className={`space-y-1 ${bypass ? 'opacity-40' : ''}`}>
+                {controls.map(control => (
+                  <label key={control.name} className="flex items-center gap-2 text-xs text-black/60">
+                    <span className="w-16">{control.label}</span>
+                    <input
+                      type="range"
+                      min={control.min}
+                      max={control.max}
+                      step={control.step}
+                      value={values[control.name]}
+                      disabled={bypass}
+                      onChange={(e) => updateEffects({ [effect]: { [control.name]: Number(e.target.value) } })}
+                      className="flex-1 min-w-0 accent-black"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  DEFAULT_PRESET,
+  GESTURE_FEATURES,
+  GESTURE_HANDS,
+  GestureFeature,
+  GestureHand,
+  GestureRoute,
+  MAPPING_CURVES,
+  MAPPING_TARGETS,
+  MappingCurve,
+  MappingPreset,
+  MappingTarget,
+  defaultLookupTable,
+  isMappingPreset,
+  loadMappingPresets,
+  saveMappingPresets
+} from '../../utils/gestureMapping';
+import { downloadBlob } from '../../utils/download';
+
+interface GestureMappingPanelProps {
+  routes: GestureRoute[];
+  onChange: (routes: GestureRoute[]) => void;
+  handLabels: Record<GestureHand, string>;
+}
+
+const SELECT_CLASS = 'bg-transparent border border-black/20 rounded-md px-1 py-0.5 min-w-0';
+
+export default function GestureMappingPanel({ routes, onChange, handLabels }: GestureMappingPanelProps) {
+  const [presets, setPresets] = useState<MappingPreset[]>(() => loadMappingPresets());
+  const [presetName, setPresetName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const allPresets = useMemo(() => [DEFAULT_PRESET, ...presets], [presets]);
+  const trimmedName = presetName.trim();
+
+  const updateRoute = useCallback((index: number, changes: Partial<GestureRoute>) => {
+    onChange(routes.map((route, i) => i === index ? { ...route, ...changes } : route));
+  }, [routes, onChange]);
+
+  // A new feature brings its full range with it, and a lookup table to match
+  const changeFeature = useCallback((index: number, feature: GestureFeature) => {
+    const { min, max } = GESTURE_FEATURES[feature];
+    const route = { ...routes[index], feature, min, max };
+    updateRoute(index, route.curve === 'lookup' ? { ...route, table: defaultLookupTable(route) } : route);
+  }, [routes, updateRoute]);
+
+  const changeCurve = useCallback((index: number, curve: MappingCurve) => {
+    const route = routes[index];
+    updateRoute(index, curve === 'lookup' && !route.table?.length ? { curve, table: defaultLookupTable(route) } : { curve });
+  }, [routes, updateRoute]);
+
+  // Entries that don't parse are dropped; an empty table falls back to linear
+  const changeTable = useCallback((index: number, text: string) => {
+    const table = text.split(',')
+      .filter(entry => entry.trim() !== '')
+      .map(Number)
+      .filter(Number.isFinite);
+    updateRoute(index, { table });
+  }, [updateRoute]);
+
+  const addRoute = useCallback(() => {
+    const { min, max } = GESTURE_FEATURES.y;
+    onChange([...routes, { hand: 'control', feature: 'y', target: 'volume', min, max, curve: 'linear', invert: true }]);
+  }, [routes, onChange]);
+
+  const removeRoute = useCallback((index: number) => {
+    onChange(routes.filter((_, i) => i !== index));
+  }, [routes, onChange]);
+
+  const storePresets = useCallback((next: MappingPreset[]) => {
+    saveMappingPresets(next);
+    setPresets(next);
+  }, []);
+
+  const loadPreset = useCallback((name: string) => {
+    const preset = allPresets.find(candidate => candidate.name === name);
+    if (!preset) return;
+    onChange(preset.routes);
+    setPresetName(preset === DEFAULT_PRESET ? '' : preset.name);
+  }, [allPresets, onChange]);
+
+  // Saving under an existing name replaces that preset
+  const savePreset = useCallback(() => {
+    if (!trimmedName || trimmedName === DEFAULT_PRESET.name) return;
+    storePresets([...presets.filter(preset => preset.name !== trimmedName), { name: trimmedName, routes }]);
+  }, [trimmedName, presets, routes, storePresets]);
+
+  const deletePreset = useCallback(() => {
+    storePresets(presets.filter(preset => preset.name !== trimmedName));
+    setPresetName('');
+  }, [trimmedName, presets, storePresets]);
+
+  const exportPreset = useCallback(() => {
+    const preset: MappingPreset = { name: trimmedName || 'Untitled', routes };
+    downloadBlob(
+      new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' }),
+      `${preset.name.replace(/[^\w-]+/g, '-')}.mapping.json`
+    );
+  }, [trimmedName, routes]);
+
+  const handleImportFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const preset: unknown = JSON.parse(await file.text());
+      if (!isMappingPreset(preset)) {
+        throw new Error('Not a gesture mapping file');
+      }
+      setImportError(null);
+      onChange(preset.routes);
+      setPresetName(preset.name);
+    } catch (err) {
+      console.error('Failed to import gesture mapping:', err);
+      setImportError('That file is not a gesture mapping.');
+    }
+  }, [onChange]);
+
+  const isSaved = presets.some(preset => preset.name === trimmedName);
+
+  return (
+    <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm not-italic">
+      <div className="text-black/60 text-xs mb-3 text-center">Gesture Mapping</div>
+
+      {/* Presets */}
+      <div className="space-y-2 text-xs mb-3">
+        <select
+          value=""
+          onChange={(e) => loadPreset(e.target.value)}
+          className={`${SELECT_CLASS} w-full`}
+          aria-label="Load preset"
+        >
+          <option value="" disabled>Load preset…</option>
+          {allPresets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 bg-transparent border border-black/20 rounded-md px-2 py-0.5"
+            aria-label="Preset name"
+          />
+          <button
+            onClick={savePreset}
+            disabled={!trimmedName || trimmedName === DEFAULT_PRESET.name}
+            className="px-2 py-0.5 border border-black/20 rounded-md hover:bg-white/40 cursor-pointer disabled:opacity-40"
+          >
+            Save
+          </button>
+          <button
+            onClick={deletePreset}
+            disabled={!isSaved}
+            className="px-2 py-0.5 border border-black/20 rounded-md hover:bg-white/40 cursor-pointer disabled:opacity-40"
+          >
+            Delete
+          </button>
+        </div>
+        <div className="flex gap-1 justify-center">
+          <button
+            onClick={exportPreset}
+            className="px-2 py-0.5 border border-black/20 rounded-md hover:bg-white/40 cursor-pointer"
+          >
+            Export JSON
+          </button>
+          <label className="px-2 py-0.5 border border-black/20 rounded-md hover:bg-white/40 cursor-pointer">
+            Import JSON…
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+          </label>
+        </div>
+        {importError && <div className="text-red-500 text-center">{importError}</div>}
+      </div>
+
+      {/* Routes */}
+      <div className="space-y-2">
+        {routes.map((route, index) => {
+          const feature = GESTURE_FEATURES[route.feature];
+
+          return (
+            <div key={index} className="p-2 border border-black/5 rounded-lg bg-white/40 space-y-1 text-xs">
+              <div className="flex items-center gap-1">
+                <select
+                  value={route.hand}
+                  onChange={(e) => updateRoute(index, { hand: e.target.value as GestureHand })}
+                  className={SELECT_CLASS}
+                  aria-label="Hand"
+                >
+                  {GESTURE_HANDS.map(hand => (
+                    <option key={hand} value={hand}>{handLabels[hand]}</option>
+                  ))}
+                </select>
+                <select
+                  value={route.feature}
+                  onChange={(e) => changeFeature(index, e.target.value as GestureFeature)}
+                  className={`${SELECT_CLASS} flex-1`}
+                  aria-label="Feature"
+                >
+                  {(Object.keys(GESTURE_FEATURES) as GestureFeature[]).map(name => (
+                    <option key={name} value={name}>{GESTURE_FEATURES[name].label}</option>
+                  ))}
+                </select>
+                <span className="text-black/40">→</span>
+                <select
+                  value={route.target}
+                  onChange={(e) => updateRoute(index, { target: e.target.value as MappingTarget })}
+                  className={`${SELECT_CLASS} flex-1`}
+                  aria-label="Parameter"
+                >
+                  {(Object.keys(MAPPING_TARGETS) as MappingTarget[]).map(target => (
+                    <option key={target} value={target}>{MAPPING_TARGETS[target]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeRoute(index)}
+                  className="w-5 h-5 rounded hover:bg-white/60 cursor-pointer text-black/60"
+                  aria-label="Remove route"
+                >
+                  ×
+                </button>
+              </div>
+              <div className="flex items-center gap-1 text-black/60">
+                <input
+                  type="number"
+                  min={feature.min}
+                  max={feature.max}
+                  step={feature.step}
+                  value={route.min}
+                  onChange={(e) => updateRoute(index, { min: Number(e.target.value) })}
+                  className="w-12 bg-transparent border border-black/20 rounded-md px-1 py-0.5"
+                  aria-label="Range from"
+                />
+                <span>to</span>
+                <input
+                  type="number"
+                  min={feature.min}
+                  max={feature.max}
+                  step={feature.step}
+                  value={route.max}
+                  onChange={(e) => updateRoute(index, { max: Number(e.target.value) })}
+                  className="w-12 bg-transparent border border-black/20 rounded-md px-1 py-0.5"
+                  aria-label="Range to"
+                />
+                <select
+                  value={route.curve}
+                  onChange={(e) => changeCurve(index, e.target.value as MappingCurve)}
+                  className={`${SELECT_CLASS} flex-1`}
+                  aria-label="Curve"
+                >
+                  {(Object.keys(MAPPING_CURVES) as MappingCurve[]).map(curve => (
+                    <option key={curve} value={curve}>{MAPPING_CURVES[curve]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={route.invert}
+                    onChange={(e) => updateRoute(index, { invert: e.target.checked })}
+                    className="accent-black"
+                  />
+                  Invert
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer" title="Use the magnitude, so either direction counts the same">
+                  <input
+                    type="checkbox"
+                    checked={route.absolute ?? false}
+                    onChange={(e) => updateRoute(index, { absolute: e.target.checked })}
+                    className="accent-black"
+                  />
+                  Abs
+                </label>
+              </div>
+              {route.curve === 'lookup' && (
+                <input
+                  key={(route.table ?? []).join(',')}
+                  type="text"
+                  defaultValue={(route.table ?? []).join(', ')}
+                  onBlur={(e) => changeTable(index, e.target.value)}
+                  className="w-full mt-1 bg-transparent border border-black/20 rounded-md px-1 py-0.5 text-black/60"
+                  placeholder="Outputs 0-1, comma separated"
+                  aria-label="Lookup table"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={addRoute}
+        className="mt-2 w-full px-2 py-1 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer text-xs"
+      >
+        + Add route
+      </button>
+    </div>
+  );
+}
@@ -1,69 +1,124 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { useHarmonizer } from '../../hooks/useHarmonizer';
-import { audioEngine } from '../../utils/audioEngine';
-import { midiToNoteName } from '../../types/harmonizer';
+import { audioEngine, VoiceEnvelope } from '../../utils/audioEngine';
+import { midiToNoteName, NOTE_NAMES } from '../../types/harmonizer';
+import { HandTrackingResult } from '../../types/handTracking';
+import {
+  HandPosition,
+  HandPreference,
+  MelodySource,
+  PerformanceLog,
+  VolumeHand,
+  isPerformanceLog
+} from '../../types/performance';
+import {
+  PerformanceRecorder,
+  PerformanceRecording,
+  PerformanceReplayer,
+  getRecordingExtension
+} from '../../utils/performanceRecorder';
+import { downloadBlob } from '../../utils/download';
+import { VibratoTracker } from '../../utils/vibrato';
+import { LandmarkFilter, OneEuroFilterOptions } from '../../utils/landmarkFilter';
+import { NoteStabilizer, NoteStabilizerOptions } from '../../utils/noteStabilizer';
+import { classifyHand } from '../../utils/gestures';
+import {
+  DEFAULT_ROUTES,
+  GESTURE_HANDS,
+  GestureHand,
+  GestureRoute,
+  MAPPING_TARGETS,
+  mapGestures
+} from '../../utils/gestureMapping';
+import { MidiOutputController } from '../../utils/midiOutput';
+import { MonophonicNoteTracker } from '../../utils/midiInput';
+import { VOWEL_LABELS } from '../../utils/formants';
+import { MEDIAPIPE_BASE_URL } from '../../utils/mediapipeAssets';
+import { HandTracker, createHandTracker } from '../../utils/handTracker';
+import {
+  DEFAULT_SCALE,
+  MELODY_RANGE,
+  SCALE_MODES,
+  ScaleConfig,
+  ScaleMode,
+  foldIntoRange,
+  formatScaleNote,
+  getScaleDegree,
+  getScaleNotes,
+  nearestScaleNote,
+  pitchToScaleNote,
+  pitchToScalePosition,
+  scaleIndexToPitch,
+  validateScaleConfig
+} from '../../utils/scales';
 import AboutModal from './AboutModal';
-
-type HandPreference = 'left' | 'right' | null;
-
-interface MediaPipeHands {
-  send: (input: { image: HTMLVideoElement }) => Promise<void>;
-  setOptions: (options: {
-    maxNumHands: number;
-    modelComplexity: number;
-    minDetectionConfidence: number;
-    minTrackingConfidence: number;
-  }) => void;
-  onResults: (callback: (results: HandResults) => void) => void;
-}
-
-interface Landmark {
-  x: number;
-  y: number;
-  z?: number;
-}
-
-interface HandResults {
-  multiHandLandmarks?: Landmark[][];
-  multiHandedness?: Array<{ label: string }>;
-}
-
-declare global {
-  interface Window {
-    Hands: new (options: { locateFile: (file: string) => string }) => MediaPipeHands;
-  }
-}
-
-interface HandPosition {
-  x: number; // 0-1, left to right
-  y: number; // 0-1, top to bottom (inverted for pitch)
-  detected: boolean;
-  vowel: 'A' | 'O' | 'NONE'; // Vowel based on hand gesture
-}
-
-interface VolumeHand {
-  y: number; // 0-1, controls volume
-  detected: boolean;
-}
+import MixerPanel from './MixerPanel';
+import EffectsPanel from './EffectsPanel';
+import MidiOutputPanel from './MidiOutputPanel';
+import MidiInputPanel from './MidiInputPanel';
+import MicInputPanel from './MicInputPanel';
+import PointerPad from './PointerPad';
+import GestureMappingPanel from './GestureMappingPanel';
+
+const GLIDE_TIME = 0.08; // Seconds for a voice to settle on a new pitch while gliding
+
+// Jitter filtering on the landmarks, then hysteresis and a minimum dwell at note boundaries
+const LANDMARK_SMOOTHING: OneEuroFilterOptions = { minCutoff: 1, beta: 5 };
+const NOTE_STABILITY: NoteStabilizerOptions = { hysteresis: 0.25, minDwellMs: 60 };
+
+const MELODY_SOURCES: Array<{ source: MelodySource; label: string }> = [
+  { source: 'hands', label: 'Hands' },
+  { source: 'midi', label: 'MIDI Keyboard' },
+  { source: 'mic', label: 'Voice' }
+];
 
 interface HandGestureTrackerProps {
   initialHandPreference: HandPreference;
   onBack: () => void;
+  // Swap in e.g. a MockHandTracker to drive the screen from recorded landmarks
+  createTracker?: () => Promise<HandTracker>;
 }
 
-export default function HandGestureTracker({ initialHandPreference, onBack }: HandGestureTrackerProps) {
+const createDefaultTracker = () => createHandTracker({
+  numHands: 2, // Track both hands
+  minHandDetectionConfidence: 0.7,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5
+});
+
+export default function HandGestureTracker({
+  initialHandPreference,
+  onBack,
+  createTracker = createDefaultTracker
+}: HandGestureTrackerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const handsRef = useRef<MediaPipeHands | null>(null);
+  const trackerRef = useRef<HandTracker | null>(null);
   const lastPlayedNoteRef = useRef<number | null>(null);
+  const recorderRef = useRef<PerformanceRecorder | null>(null);
+  const replayerRef = useRef<PerformanceReplayer | null>(null);
+  // While a recorded performance replays, camera results must not overwrite the hand state
+  const replayingRef = useRef(false);
+  const vibratoTrackerRef = useRef(new VibratoTracker());
+  const landmarkFilterRef = useRef(new LandmarkFilter(LANDMARK_SMOOTHING));
+  const noteStabilizerRef = useRef(new NoteStabilizer(NOTE_STABILITY));
+  const midiOutputRef = useRef(new MidiOutputController());
+  const midiNotesRef = useRef(new MonophonicNoteTracker());
 
   // All hooks must be declared before any conditional returns
   const [handPreference, setHandPreference] = useState<HandPreference>(initialHandPreference);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Set when the camera or hand tracking is unavailable; the pointer pad takes over
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [cameraAttempt, setCameraAttempt] = useState(0);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<PerformanceRecording | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [melodySource, setMelodySource] = useState<MelodySource>('hands');
+  const [gestureRoutes, setGestureRoutes] = useState<GestureRoute[]>(DEFAULT_ROUTES);
 
   // Harmonizer integration
   const {
@@ -72,8 +127,16 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
     error: harmonizerError,
     currentHarmony,
     harmonizeNoteRealTime,
+    cancelRealTimeRequest,
     isRealTimeMode,
-    toggleRealTimeMode
+    toggleRealTimeMode,
+    alternatives,
+    alternativeIndex,
+    selectAlternative,
+    samplingOptions,
+    setSamplingOptions,
+    alternativeCount,
+    setAlternativeCount
   } = useHarmonizer();
 
   // Control hand (dominant hand) - pitch and vowel
@@ -90,71 +153,50 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
     detected: false
   });
 
+  const handLabels: Record<GestureHand, string> = useMemo(() => ({
+    control: `${handPreference === 'right' ? 'Right' : 'Left'} Hand`,
+    volume: `${handPreference === 'right' ? 'Left' : 'Right'} Hand`
+  }), [handPreference]);
 
-  // Convert Y position to pitch (inverted: top = high pitch)
-  const getPitchFromY = useCallback((y: number): number => {
-    return Math.max(0, Math.min(1, 1 - y)); // Invert Y axis
-  }, []);
-
-  // Convert Y position to volume (inverted: top = high volume)
-  const getVolumeFromY = useCallback((y: number): number => {
-    return Math.max(0, Math.min(1, 1 - y)); // Invert Y axis
-  }, []);
-
-  // Convert pitch (0-1) to MIDI note in C4 to E5 range - WHITE KEYS ONLY
-  const pitchToMidi = useCallback((pitch: number): number => {
-    // White key patterns for each octave (C, D, E, F, G, A, B)
-    const whiteKeyPattern = [0, 2, 4, 5, 7, 9, 11]; // Semitone offsets from C
-
-    // Fixed range: C4 to E5 (C4=60, D4=62, E4=64, F4=65, G4=67, A4=69, B4=71, C5=72, D5=74, E5=76)
-    const whiteKeys: number[] = [];
-
-    // C4 to E5 covers octaves 4 and 5
-    for (let octave = 4; octave <= 5; octave++) {
-      const startIdx = (octave === 4) ? 0 : 0; // Start from C for both octaves
-      const endIdx = (octave === 5) ? 2 : 6;   // End at E for octave 5, B for octave 4
+  // Pitch, volume and every other hand-driven parameter, as routed in the gesture mapping
+  const mapped = useMemo(
+    () => mapGestures(gestureRoutes, { control: controlHand, volume: volumeHand }),
+    [gestureRoutes, controlHand, volumeHand]
+  );
 
-      for (let noteIdx = startIdx; noteIdx <= endIdx; noteIdx++) {
-        const midiNote = (octave + 1) * 12 + whiteKeyPattern[noteIdx];
-        whiteKeys.push(midiNote);
-      }
+  // Active scale/key that the control hand's height is quantized to
+  const [scale, setScale] = useState<ScaleConfig>(DEFAULT_SCALE);
+  const [scaleError, setScaleError] = useState<string | null>(null);
+  // Glide: the melody follows the hand continuously instead of snapping to scale notes
+  const [isGlideMode, setIsGlideMode] = useState(false);
+  const [envelope, setEnvelope] = useState<VoiceEnvelope>(() => audioEngine.getEnvelope());
+  const glideModeRef = useRef(isGlideMode);
+  glideModeRef.current = isGlideMode;
+  const scaleNotes = useMemo(() => getScaleNotes(scale), [scale]);
+
+  const updateScale = useCallback((changes: Partial<ScaleConfig>) => {
+    const candidate = { ...scale, ...changes };
+    const problem = validateScaleConfig(candidate);
+    setScaleError(problem);
+    if (!problem) {
+      setScale(candidate);
     }
+  }, [scale]);
 
-    // Map pitch (0-1) to discrete white key index
-    const keyIndex = Math.floor(pitch * (whiteKeys.length - 1));
-    return whiteKeys[keyIndex];
+  const updateEnvelope = useCallback((changes: Partial<VoiceEnvelope>) => {
+    audioEngine.setEnvelope(changes);
+    setEnvelope(audioEngine.getEnvelope());
   }, []);
 
-  // Use the imported midiToNoteName function from harmonizer types
-
-
-  // Detect vowel based on hand gesture
-  const detectVowel = useCallback((landmarks: Landmark[]): 'A' | 'O' | 'NONE' => {
-    if (!landmarks || landmarks.length < 21) return 'NONE';
-
-    // Check for open palm (A) - all fingers extended
-    const fingers = [
-      { tip: landmarks[8], pip: landmarks[6] },   // Index
-      { tip: landmarks[12], pip: landmarks[10] }, // Middle
-      { tip: landmarks[16], pip: landmarks[14] }, // Ring
-      { tip: landmarks[20], pip: landmarks[18] }  // Pinky
-    ];
-
-    // Filter out any undefined landmarks before processing
-    const validFingers = fingers.filter(finger => finger.tip && finger.pip);
-    if (validFingers.length < 3) return 'NONE'; // Need at least 3 valid fingers
-
-    const extendedFingers = validFingers.filter(finger => finger.tip.y < finger.pip.y).length;
+  // Convert pitch (0-1) to a MIDI note of the active scale
+  const pitchToMidi = useCallback((pitch: number): number => {
+    return pitchToScaleNote(pitch, scaleNotes);
+  }, [scaleNotes]);
 
-    // Check for fist (O) - all fingers folded
-    const foldedFingers = validFingers.filter(finger => finger.tip.y > finger.pip.y).length;
+  // Use the imported midiToNoteName function from harmonizer types
 
-    if (extendedFingers >= 3) return 'A'; // Open palm
-    if (foldedFingers >= 3) return 'O';   // Fist
-    return 'NONE'; // Unclear gesture
-  }, []);
 
-  const onResults = useCallback((results: HandResults) => {
+  const onResults = useCallback((results: HandTrackingResult) => {
     if (!canvasRef.current || !videoRef.current) return;
 
     const canvas = canvasRef.current;
@@ -166,14 +208,15 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
     // Draw video frame
     ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
 
+    if (replayingRef.current) return;
 
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
+    if (results.hands.length > 0) {
       let controlHandData: HandPosition | null = null;
       let volumeHandData: VolumeHand | null = null;
 
       // Process each detected hand
-      results.multiHandLandmarks.forEach((landmarks: Landmark[], handIndex: number) => {
-        const handedness = results.multiHandedness?.[handIndex]?.label || 'Unknown';
+      results.hands.forEach(hand => {
+        const { landmarks, handedness } = hand;
         const isRightHand = handedness === 'Right';
         const isLeftHand = handedness === 'Left';
 
@@ -185,7 +228,7 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
           (handPreference === 'left' && isLeftHand);
 
         // Draw hand landmarks with different colors - Updated for Beige Theme
-        landmarks.forEach((landmark: Landmark, index: number) => {
+        landmarks.forEach((landmark, index) => {
           const x = landmark.x * canvas.width;
           const y = landmark.y * canvas.height;
 
@@ -236,24 +279,24 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
           }
         });
 
-        // Store hand data
-        if (isControlHand && landmarks.length > 8) {
-          const indexTip = landmarks[8];
-          if (indexTip) {
-            controlHandData = {
-              x: indexTip.x,
-              y: indexTip.y,
-              detected: true,
-              vowel: detectVowel(landmarks)
-            };
-          }
-        } else if (isVolumeHand && landmarks.length > 8) {
-          const indexTip = landmarks[8];
-          if (indexTip) {
-            volumeHandData = {
-              y: indexTip.y,
-              detected: true
-            };
+        // Store hand data: every feature of both hands, for whatever the gesture mapping routes
+        const indexTip = landmarks[8];
+        if ((isControlHand || isVolumeHand) && indexTip) {
+          const gesture = classifyHand(hand);
+          const handData: HandPosition = {
+            x: indexTip.x,
+            y: indexTip.y,
+            detected: true,
+            vowel: gesture?.vowel ?? 'NONE',
+            pinch: gesture?.pinch,
+            fingerCount: gesture?.fingerCount,
+            roll: gesture?.roll,
+            z: gesture?.z
+          };
+          if (isControlHand) {
+            controlHandData = handData;
+          } else {
+            volumeHandData = handData;
           }
         }
       });
@@ -279,9 +322,11 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
       setControlHand(prev => ({ ...prev, detected: false, vowel: 'NONE' }));
       setVolumeHand(prev => ({ ...prev, detected: false }));
     }
-  }, [detectVowel, handPreference]);
+  }, [handPreference]);
 
   useEffect(() => {
+    let cancelled = false;
+
     const initializeCamera = async () => {
       try {
         if (!videoRef.current || !canvasRef.current) return;
@@ -294,50 +339,31 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
             facingMode: 'user'
           }
         });
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
 
         videoRef.current.srcObject = stream;
 
-        // Load MediaPipe Hands with timeout and error handling
-        const loadScript = (src: string): Promise<void> => {
-          return new Promise((resolve, reject) => {
-            const script = document.createElement('script');
-            script.src = src;
-            script.onload = () => resolve();
-            script.onerror = () => reject(new Error(`Failed to load ${src}`));
-            document.head.appendChild(script);
-
-            // Timeout after 10 seconds
-            setTimeout(() => reject(new Error(`Timeout loading ${src}`)), 10000);
-          });
-        };
-
+        // Load the hand tracker from our own assets (see scripts/copy-mediapipe-assets.mjs)
         try {
-          console.log('Loading MediaPipe...');
-          await loadScript('https://cdn.jsdelivr.net/npm/@mediapipe/hands@latest/hands.js');
-          console.log('MediaPipe loaded successfully');
-
-          // Initialize MediaPipe Hands
-          const hands = new window.Hands({
-            locateFile: (file: string) => {
-              return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-            }
-          });
-
-          hands.setOptions({
-            maxNumHands: 2, // Track both hands
-            modelComplexity: 0,
-            minDetectionConfidence: 0.7,
-            minTrackingConfidence: 0.5
-          });
-
-          hands.onResults(onResults);
-          handsRef.current = hands;
+          console.log('Loading hand tracker...');
+          const tracker = await createTracker();
+          if (cancelled) {
+            tracker.close();
+            return;
+          }
+          trackerRef.current = tracker;
+          console.log('Hand tracker loaded successfully');
 
-          // Process video frames
+          // Process video frames until this tracker is closed
           const processFrame = async () => {
-            if (videoRef.current && videoRef.current.readyState === 4 && handsRef.current) {
+            if (trackerRef.current !== tracker) return;
+
+            if (videoRef.current && videoRef.current.readyState === 4) {
               try {
-                await handsRef.current.send({ image: videoRef.current });
+                onResults(landmarkFilterRef.current.filter(await tracker.detect(videoRef.current, performance.now())));
               } catch (err) {
                 console.warn('Frame processing error:', err);
               }
@@ -353,8 +379,10 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
           };
 
         } catch (err) {
-          console.error('MediaPipe loading error:', err);
-          setError('MediaPipe failed to load. Please check your internet connection and try refreshing.');
+          console.error('Hand tracker loading error:', err);
+          stream.getTracks().forEach(track => track.stop());
+          videoRef.current!.srcObject = null;
+          setCameraError(`Hand tracking failed to load from ${MEDIAPIPE_BASE_URL}.`);
           setIsLoading(false);
         }
 
@@ -364,7 +392,7 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
 
       } catch (err) {
         console.error('Error initializing camera:', err);
-        setError('Failed to access camera. Please ensure camera permissions are granted.');
+        setCameraError('No camera available.');
         setIsLoading(false);
       }
     };
@@ -373,14 +401,33 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
       initializeCamera();
     }
 
-    // Cleanup function
+    const video = videoRef.current;
     return () => {
-      // No cleanup needed for UI-only functionality
+      cancelled = true;
+      trackerRef.current?.close();
+      trackerRef.current = null;
+      (video?.srcObject as MediaStream | null)?.getTracks().forEach(track => track.stop());
     };
-  }, [onResults, handPreference]);
+  }, [onResults, handPreference, cameraAttempt, createTracker]);
+
+  const retryCamera = useCallback(() => {
+    setCameraError(null);
+    setIsLoading(true);
+    setCameraAttempt(attempt => attempt + 1);
+  }, []);
 
-  const currentPitch = controlHand.detected ? getPitchFromY(controlHand.y) : 0;
-  const currentVolume = volumeHand.detected ? getVolumeFromY(volumeHand.y) : 0.5;
+  const {
+    pitch: mappedPitch,
+    gate,
+    sustain,
+    volume: currentVolume,
+    octave,
+    filterSweep,
+    voicing,
+    vowel: mappedVowel
+  } = mapped;
+  const currentPitch = mappedPitch ?? 0;
+  const isSounding = mappedPitch !== null && gate;
 
   // Enable real-time mode automatically when harmonizer is ready
   useEffect(() => {
@@ -392,52 +439,269 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
   // Play audio when harmony changes
   useEffect(() => {
     if (currentHarmony) {
-      audioEngine.playChord(
-        currentHarmony.soprano.midiNote,
-        currentHarmony.alto.midiNote,
-        currentHarmony.tenor.midiNote,
-        currentHarmony.bass.midiNote
-      ).catch(error => {
+      midiOutputRef.current.playChord(currentHarmony);
+
+      // While gliding, the lower voices move to the new chord and the melody keeps following the hand
+      if (glideModeRef.current) {
+        const glided = (['alto', 'tenor', 'bass'] as const).every(voice =>
+          audioEngine.rampVoiceTo(voice, currentHarmony[voice].midiNote, GLIDE_TIME)
+        );
+        if (glided) return;
+      }
+
+      audioEngine.playHarmony(currentHarmony).catch(error => {
         console.error('Audio playback failed:', error);
       });
     }
   }, [currentHarmony]);
 
-  // Apply volume control from volume hand
+  // External MIDI gear goes quiet whenever the synth is stopped
+  useEffect(() => {
+    const midiOutput = midiOutputRef.current;
+    const unsubscribe = audioEngine.onStop(() => midiOutput.releaseAll());
+    return () => {
+      unsubscribe();
+      midiOutput.releaseAll();
+    };
+  }, []);
+
+  // Hand shape picks the vowel the choir sings
   useEffect(() => {
+    if (mappedVowel) {
+      audioEngine.setVowel(mappedVowel);
+    }
+  }, [mappedVowel]);
+
+  // Start harmonizing a melody note, whatever it came from
+  const playMelodyNote = useCallback((midiNote: number) => {
+    // Only harmonize if the note has changed to avoid excessive processing
+    if (midiNote === lastPlayedNoteRef.current) return;
+
     try {
-      // Use detected volume hand position, fallback to default 50%
-      const targetVolume = volumeHand.detected ? currentVolume : 0.5;
-      audioEngine.setMasterVolume(targetVolume);
+      harmonizeNoteRealTime(midiNote).catch(err => {
+        console.error('Failed to harmonize note:', err);
+      });
+      lastPlayedNoteRef.current = midiNote;
+      midiOutputRef.current.playMelodyNote(midiNote);
+    } catch (err) {
+      console.error('Failed to harmonize note:', err);
+    }
+  }, [harmonizeNoteRealTime]);
+
+  // Stop the melody and its chord
+  const releaseMelody = useCallback(() => {
+    cancelRealTimeRequest();
+    audioEngine.stopAll();
+    lastPlayedNoteRef.current = null;
+  }, [cancelRealTimeRequest]);
+
+  const selectMelodySource = useCallback((source: MelodySource) => {
+    releaseMelody();
+    midiNotesRef.current.clear();
+    setMelodySource(source);
+  }, [releaseMelody]);
+
+  // MIDI keyboard: the newest held key is the melody and its velocity sets the volume
+  const handleMidiNoteOn = useCallback((note: number, velocity: number) => {
+    if (!harmonizerReady) return;
+
+    midiNotesRef.current.press(note, velocity);
+    audioEngine.setMasterVolume(velocity / 127);
+    playMelodyNote(foldIntoRange(note, MELODY_RANGE.min, MELODY_RANGE.max));
+  }, [harmonizerReady, playMelodyNote]);
+
+  const handleMidiNoteOff = useCallback((note: number) => {
+    const held = midiNotesRef.current.release(note);
+    if (held) {
+      audioEngine.setMasterVolume(held.velocity / 127);
+      playMelodyNote(foldIntoRange(held.note, MELODY_RANGE.min, MELODY_RANGE.max));
+    } else {
+      releaseMelody();
+    }
+  }, [playMelodyNote, releaseMelody]);
+
+  // Microphone: each settled sung note is harmonized, silence stops the chord
+  const handleMicNote = useCallback((note: number | null) => {
+    if (note === null) {
+      releaseMelody();
+    } else if (harmonizerReady) {
+      playMelodyNote(foldIntoRange(note, MELODY_RANGE.min, MELODY_RANGE.max));
+    }
+  }, [harmonizerReady, playMelodyNote, releaseMelody]);
+
+  // Apply the mapped volume, 50% while nothing drives it
+  useEffect(() => {
+    if (melodySource !== 'hands') return;
+
+    try {
+      audioEngine.setMasterVolume(currentVolume);
     } catch (err) {
       console.error('Failed to set audio volume:', err);
     }
-  }, [volumeHand.detected, currentVolume]);
+  }, [currentVolume, melodySource]);
 
-  // Trigger harmonization when control hand position changes
+  // Trigger harmonization when the mapped pitch changes
   useEffect(() => {
-    if (controlHand.detected && harmonizerReady && controlHand.vowel !== 'NONE') {
-      const currentMidiNote = pitchToMidi(currentPitch);
+    if (melodySource !== 'hands') return;
+    // Sustain holds the current note whatever the hands do until it lets go
+    if (sustain) return;
+
+    if (isSounding && harmonizerReady) {
+      // Notes the shift would push out of the melody range stay where they are
+      const shiftOctave = (note: number) => {
+        const shifted = note + 12 * octave;
+        return shifted >= MELODY_RANGE.min && shifted <= MELODY_RANGE.max ? shifted : note;
+      };
+      const stabilizer = noteStabilizerRef.current;
+      const stableNote = () => {
+        const index = stabilizer.push(Math.max(0, Math.min(1, currentPitch)) * scaleNotes.length, performance.now());
+        return shiftOctave(scaleNotes[Math.min(index, scaleNotes.length - 1)]);
+      };
+      let currentMidiNote = stableNote();
+
+      if (isGlideMode) {
+        const { center, depth, rate } = vibratoTrackerRef.current.push(
+          pitchToScalePosition(currentPitch, scaleNotes),
+          performance.now()
+        );
+        audioEngine.rampVoiceTo('soprano', shiftOctave(center), GLIDE_TIME);
+        audioEngine.setVibrato('soprano', depth, rate);
+        // Harmony only follows the nearest scale note, so vibrato and slides don't re-harmonize
+        currentMidiNote = shiftOctave(nearestScaleNote(center, scaleNotes));
+      }
 
-      // Only harmonize if the note has changed to avoid excessive processing
-      if (currentMidiNote !== lastPlayedNoteRef.current) {
-        try {
-          harmonizeNoteRealTime(currentMidiNote);
-          lastPlayedNoteRef.current = currentMidiNote;
-        } catch (err) {
-          console.error('Failed to harmonize note:', err);
-        }
+      playMelodyNote(currentMidiNote);
+
+      // A hand held still sends no new positions, so look again once a pending note has dwelt long enough
+      const dwell = stabilizer.pendingDwell(performance.now());
+      if (!isGlideMode && dwell !== null) {
+        const timer = setTimeout(() => playMelodyNote(stableNote()), dwell);
+        return () => clearTimeout(timer);
+      }
+    } else if (!isSounding) {
+      // Stop audio when nothing drives the pitch or the gate is closed
+      releaseMelody();
+      audioEngine.setVibrato('soprano', 0, 0);
+      vibratoTrackerRef.current.reset();
+      noteStabilizerRef.current.reset();
+    }
+  }, [isSounding, sustain, octave, currentPitch, harmonizerReady, playMelodyNote, releaseMelody, isGlideMode, scaleNotes, melodySource]);
+
+  // Other melody sources leave the filter open
+  useEffect(() => {
+    audioEngine.setFilterSweep(melodySource === 'hands' ? filterSweep : 1);
+  }, [filterSweep, melodySource]);
+
+  // Note bands move when the scale changes
+  useEffect(() => {
+    noteStabilizerRef.current.reset();
+  }, [scaleNotes]);
+
+  // Leaving glide mode drops any vibrato left on the melody voice
+  useEffect(() => {
+    if (!isGlideMode) {
+      audioEngine.setVibrato('soprano', 0, 0);
+      vibratoTrackerRef.current.reset();
+    }
+  }, [isGlideMode]);
+
+  // The mapped voicing (by default the control hand's position across the screen) picks among the ranked voicings
+  useEffect(() => {
+    if (melodySource !== 'hands' || voicing === null || alternatives.length < 2) return;
+
+    const index = Math.min(alternatives.length - 1, Math.floor(voicing * alternatives.length));
+    selectAlternative(index);
+  }, [voicing, alternatives.length, selectAlternative, melodySource]);
+
+  // Log gestures and chords while recording
+  useEffect(() => {
+    recorderRef.current?.logHands(controlHand, volumeHand);
+  }, [controlHand, volumeHand]);
+
+  useEffect(() => {
+    if (currentHarmony) {
+      recorderRef.current?.logChord(currentHarmony);
+    }
+  }, [currentHarmony]);
+
+  const toggleRecording = useCallback(async () => {
+    if (!recorderRef.current) {
+      recorderRef.current = new PerformanceRecorder();
+    }
+    const recorder = recorderRef.current;
+
+    try {
+      if (recorder.isRecording) {
+        setRecording(await recorder.stop());
+        setIsRecording(false);
+      } else {
+        setRecording(null);
+        await recorder.start(handPreference);
+        setIsRecording(true);
+      }
+    } catch (err) {
+      console.error('Recording failed:', err);
+      setIsRecording(false);
+    }
+  }, [handPreference]);
+
+  const downloadRecording = useCallback(() => {
+    if (!recording) return;
+    const stamp = recording.performance.recordedAt.replace(/[:.]/g, '-');
+
+    downloadBlob(recording.audio, `motion-wave-${stamp}.${getRecordingExtension(recording.audio.type)}`);
+    downloadBlob(
+      new Blob([JSON.stringify(recording.performance, null, 2)], { type: 'application/json' }),
+      `motion-wave-${stamp}.performance.json`
+    );
+  }, [recording]);
+
+  const stopReplay = useCallback(() => {
+    replayerRef.current?.stop();
+    replayerRef.current = null;
+    replayingRef.current = false;
+    setIsReplaying(false);
+    setControlHand(prev => ({ ...prev, detected: false, vowel: 'NONE' }));
+    setVolumeHand(prev => ({ ...prev, detected: false }));
+  }, []);
+
+  // Feed a recorded gesture log back through the same hand state the camera drives
+  const startReplay = useCallback((log: PerformanceLog) => {
+    replayerRef.current?.stop();
+    replayingRef.current = true;
+    setIsReplaying(true);
+
+    replayerRef.current = new PerformanceReplayer(
+      log,
+      frame => {
+        setControlHand(frame.controlHand);
+        setVolumeHand(frame.volumeHand);
+      },
+      stopReplay
+    );
+    replayerRef.current.start();
+  }, [stopReplay]);
+
+  const handleReplayFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const log: unknown = JSON.parse(await file.text());
+      if (!isPerformanceLog(log)) {
+        throw new Error('Not a Motion Wave performance file');
       }
-    } else if (!controlHand.detected || controlHand.vowel === 'NONE') {
-      // Stop audio when hand is not detected or no gesture
-      audioEngine.stopAll();
-      lastPlayedNoteRef.current = null;
+      startReplay(log);
+    } catch (err) {
+      console.error('Failed to load performance:', err);
     }
-  }, [controlHand.detected, controlHand.vowel, currentPitch, harmonizerReady, harmonizeNoteRealTime, pitchToMidi]);
+  }, [startReplay]);
 
   // Cleanup audio on unmount
   useEffect(() => {
     return () => {
+      replayerRef.current?.stop();
       audioEngine.destroy();
     };
   }, []);
@@ -445,30 +709,6 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
   // Hand preference selection page - REMOVED (Handled by parent)
   // if (handPreference === null) { ... } code block removed
 
-  if (error) {
-    return (
-      <div className="min-h-screen bg-[#F5F5DC] flex items-center justify-center relative overflow-hidden font-serif italic">
-        <div className="absolute inset-0 bg-noise pointer-events-none z-0"></div>
-
-        <div className="relative z-10 text-center p-12 border border-black/20 rounded-[2.5rem] bg-white/20 backdrop-blur-sm max-w-lg shadow-xl">
-          <div className="relative">
-            <h1 className="text-4xl text-black mb-4 tracking-tight">Error</h1>
-            <p className="text-black/80 text-lg mb-4 not-italic">{error}</p>
-            <p className="text-sm text-black/60 mb-8 not-italic">
-              Make sure you&apos;ve granted camera permissions and are using HTTPS
-            </p>
-            <button
-              onClick={onBack}
-              className="px-8 py-4 bg-black text-[#F5F5DC] rounded-xl hover:scale-105 transition-transform cursor-pointer"
-            >
-              Back to Hand Selection
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-[#F5F5DC] text-black font-serif italic relative overflow-hidden flex flex-col items-center">
       {/* Background Noise */}
@@ -533,6 +773,36 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
               className="relative z-20 w-full h-full"
               style={{ transform: 'scaleX(-1)' }}
             />
+
+            {/* Mouse, touch and keyboard play when there is no camera */}
+            {cameraError && (
+              <>
+                <PointerPad noteCount={scaleNotes.length} onControlHand={setControlHand} onVolumeHand={setVolumeHand} />
+                <div className="absolute top-3 inset-x-0 z-30 text-center text-xs text-black/60 pointer-events-none not-italic">
+                  {cameraError} Playing with mouse, touch and keyboard instead.{' '}
+                  <button onClick={retryCamera} className="underline underline-offset-2 cursor-pointer pointer-events-auto">
+                    Retry camera
+                  </button>
+                </div>
+              </>
+            )}
+
+            {/* Pitch axis: scale degrees at the height that plays them */}
+            <div className="absolute inset-y-0 right-0 z-30 w-16 pointer-events-none not-italic">
+              {scaleNotes.map((note, index) => {
+                const pitch = scaleIndexToPitch(index, scaleNotes.length);
+                const isActive = mappedPitch !== null && note === pitchToMidi(currentPitch);
+                return (
+                  <div
+                    key={note}
+                    className={`absolute right-2 -translate-y-1/2 px-1.5 rounded text-[10px] leading-4 ${isActive ? 'bg-black text-[#F5F5DC]' : 'bg-white/50 text-black/60'}`}
+                    style={{ top: `${(1 - pitch) * 100}%` }}
+                  >
+                    {getScaleDegree(note, scale)} · {formatScaleNote(note, scale)}
+                  </div>
+                );
+              })}
+            </div>
           </div>
 
           {/* Compact Side Panel */}
@@ -574,7 +844,7 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
                       <div className="text-sm text-black/60">Loading harmonizer...</div>
                     ) : harmonizerError ? (
                       <div className="text-sm text-red-500">Harmonizer error</div>
-                    ) : controlHand.detected && controlHand.vowel !== 'NONE' ? (
+                    ) : isSounding ? (
                       <div className="text-sm text-black/60">Generating harmony...</div>
                     ) : (
                       <div className="text-sm text-black/40 italic">
@@ -584,13 +854,36 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
                   </div>
                 )}
 
+                {/* Ranked alternative voicings */}
+                {alternatives.length > 1 && (
+                  <div className="mt-4 space-y-1 text-xs not-italic">
+                    {alternatives.map((chord, index) => (
+                      <button
+                        key={index}
+                        onClick={() => selectAlternative(index)}
+                        className={`w-full flex justify-between px-3 py-1 rounded-md cursor-pointer ${index === alternativeIndex ? 'bg-black text-[#F5F5DC]' : 'bg-white/40 text-black/70 hover:bg-white/60'}`}
+                      >
+                        <span>{index + 1}.</span>
+                        <span>
+                          {[chord.soprano, chord.alto, chord.tenor, chord.bass]
+                            .map(note => midiToNoteName(note.midiNote))
+                            .join(' ')}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {/* Current melody note indicator */}
-                {controlHand.detected && (
+                {mappedPitch !== null && (
                   <div className="mt-4 pt-4 border-t border-black/10">
                     <div className="text-center">
                       <div className="text-xs text-black/50 mb-1 not-italic">Melody Note</div>
                       <div className="text-xl text-black">
-                        ♪ {midiToNoteName(pitchToMidi(currentPitch))}
+                        ♪ {formatScaleNote(pitchToMidi(currentPitch), scale)}
+                        {mappedVowel && (
+                          <span className="text-black/50"> · {VOWEL_LABELS[mappedVowel]}</span>
+                        )}
                       </div>
                       <div className="text-xs text-black/40">
                         {(currentPitch * 100).toFixed(0)}% pitch
@@ -601,6 +894,15 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
               </div>
             </div>
 
+            {/* Per-part Mixer */}
+            <MixerPanel />
+
+            {/* Master Effects */}
+            <EffectsPanel />
+
+            {/* MIDI Output */}
+            <MidiOutputPanel controller={midiOutputRef.current} />
+
             {/* Volume Display */}
             <div className="p-6 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm">
               <div className="relative text-center">
@@ -613,13 +915,13 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
                 <div className="relative w-full h-2 bg-black/10 rounded-full overflow-hidden mb-3">
                   <div
                     className="h-full bg-black transition-all duration-300 ease-out rounded-full"
-                    style={{ width: `${volumeHand.detected ? (currentVolume * 100) : 50}%` }}
+                    style={{ width: `${currentVolume * 100}%` }}
                   />
                 </div>
 
                 <div className="flex items-center justify-center gap-2">
                   <div className="text-lg text-black">
-                    {volumeHand.detected ? `${(currentVolume * 100).toFixed(0)}%` : '50%'}
+                    {(currentVolume * 100).toFixed(0)}%
                   </div>
                 </div>
 
@@ -632,13 +934,181 @@ export default function HandGestureTracker({ initialHandPreference, onBack }: Ha
             {/* Control Description */}
             <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm text-center">
               <div className="text-black/60 text-xs mb-2 not-italic">Controls</div>
-              <div className="text-sm text-black space-y-1">
-                <div>
-                  <span className="font-bold">{handPreference === 'right' ? 'Right' : 'Left'} Hand:</span> Pitch & Harmony
+              <div className="flex justify-center gap-1 mb-3 text-xs not-italic">
+                {MELODY_SOURCES.map(({ source, label }) => (
+                  <button
+                    key={source}
+                    onClick={() => selectMelodySource(source)}
+                    className={`px-3 py-1 rounded-full cursor-pointer ${melodySource === source ? 'bg-black text-[#F5F5DC]' : 'border border-black/20 hover:bg-white/40'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {melodySource === 'hands' && (
+                <div className="text-sm text-black space-y-1">
+                  {GESTURE_HANDS.map(hand => {
+                    const targets = [...new Set(gestureRoutes.filter(route => route.hand === hand).map(route => route.target))];
+                    return (
+                      <div key={hand}>
+                        <span className="font-bold">{handLabels[hand]}:</span>{' '}
+                        {targets.length > 0 ? targets.map(target => MAPPING_TARGETS[target]).join(' · ') : 'Unused'}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {melodySource === 'midi' && (
+                <div className="not-italic">
+                  <MidiInputPanel onNoteOn={handleMidiNoteOn} onNoteOff={handleMidiNoteOff} />
                 </div>
-                <div>
-                  <span className="font-bold">{handPreference === 'right' ? 'Left' : 'Right'} Hand:</span> Volume
+              )}
+              {melodySource === 'mic' && (
+                <div className="not-italic">
+                  <MicInputPanel onNoteChange={handleMicNote} />
                 </div>
+              )}
+            </div>
+
+            {/* Gesture Mapping */}
+            {melodySource === 'hands' && (
+              <GestureMappingPanel routes={gestureRoutes} onChange={setGestureRoutes} handLabels={handLabels} />
+            )}
+
+            {/* Scale & Key */}
+            <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm not-italic">
+              <div className="text-black/60 text-xs mb-3 text-center">Scale</div>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <select
+                  value={scale.root}
+                  onChange={(e) => updateScale({ root: Number(e.target.value) })}
+                  className="bg-transparent border border-black/20 rounded-md px-2 py-1"
+                  aria-label="Key"
+                >
+                  {NOTE_NAMES.map((name, index) => (
+                    <option key={name} value={index}>{name}</option>
+                  ))}
+                </select>
+                <select
+                  value={scale.mode}
+                  onChange={(e) => updateScale({ mode: e.target.value as ScaleMode })}
+                  className="bg-transparent border border-black/20 rounded-md px-2 py-1"
+                  aria-label="Mode"
+                >
+                  {(Object.keys(SCALE_MODES) as ScaleMode[]).map(mode => (
+                    <option key={mode} value={mode}>{SCALE_MODES[mode].name}</option>
+                  ))}
+                </select>
+                <select
+                  value={scale.low}
+                  onChange={(e) => updateScale({ low: Number(e.target.value) })}
+                  className="bg-transparent border border-black/20 rounded-md px-2 py-1"
+                  aria-label="Lowest note"
+                >
+                  {Array.from({ length: MELODY_RANGE.max - MELODY_RANGE.min + 1 }, (_, i) => MELODY_RANGE.min + i).map(note => (
+                    <option key={note} value={note}>{midiToNoteName(note)}</option>
+                  ))}
+                </select>
+                <select
+                  value={scale.high}
+                  onChange={(e) => updateScale({ high: Number(e.target.value) })}
+                  className="bg-transparent border border-black/20 rounded-md px-2 py-1"
+                  aria-label="Highest note"
+                >
+                  {Array.from({ length: MELODY_RANGE.max - MELODY_RANGE.min + 1 }, (_, i) => MELODY_RANGE.min + i).map(note => (
+                    <option key={note} value={note}>{midiToNoteName(note)}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="mt-3 flex items-center justify-center gap-2 text-xs text-black/60 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isGlideMode}
+                  onChange={(e) => setIsGlideMode(e.target.checked)}
+                  className="accent-black"
+                />
+                Glide between notes (wobble for vibrato)
+              </label>
+              {scaleError && <div className="mt-2 text-xs text-red-500 text-center">{scaleError}</div>}
+            </div>
+
+            {/* Harmony Variation */}
+            <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm not-italic">
+              <div className="text-black/60 text-xs mb-3 text-center">Harmony</div>
+              <label className="flex items-center justify-between gap-3 text-sm mb-2">
+                <span>Variation</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1.5}
+                  step={0.1}
+                  value={samplingOptions.temperature ?? 0}
+                  disabled={alternativeCount > 1}
+                  onChange={(e) => setSamplingOptions(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+                  className="flex-1 accent-black disabled:opacity-40"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm">
+                <span>Voicings</span>
+                <select
+                  value={alternativeCount}
+                  onChange={(e) => setAlternativeCount(Number(e.target.value))}
+                  className="bg-transparent border border-black/20 rounded-md px-2 py-1"
+                >
+                  <option value={1}>1</option>
+                  <option value={3}>3</option>
+                  <option value={5}>5</option>
+                </select>
+              </label>
+              {/* Envelope of the sung parts, in seconds */}
+              {(['attack', 'release', 'glide'] as const).map(stage => (
+                <label key={stage} className="flex items-center justify-between gap-3 text-sm mt-2">
+                  <span className="capitalize w-16">{stage}</span>
+                  <input
+                    type="range"
+                    min={0.01}
+                    max={stage === 'release' ? 1.5 : 0.5}
+                    step={0.01}
+                    value={envelope[stage]}
+                    onChange={(e) => updateEnvelope({ [stage]: Number(e.target.value) })}
+                    className="flex-1 accent-black"
+                  />
+                </label>
+              ))}
+            </div>
+
+            {/* Recording & Replay */}
+            <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm text-center">
+              <div className="text-black/60 text-xs mb-3 not-italic">Performance</div>
+              <div className="flex flex-wrap items-center justify-center gap-2 text-sm not-italic">
+                <button
+                  onClick={toggleRecording}
+                  disabled={isReplaying}
+                  className="px-4 py-2 bg-black text-[#F5F5DC] rounded-lg hover:scale-105 transition-transform cursor-pointer disabled:opacity-40"
+                >
+                  {isRecording ? '■ Stop' : '● Record'}
+                </button>
+                {recording && !isRecording && (
+                  <button
+                    onClick={downloadRecording}
+                    className="px-4 py-2 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer"
+                  >
+                    Download
+                  </button>
+                )}
+                {isReplaying ? (
+                  <button
+                    onClick={stopReplay}
+                    className="px-4 py-2 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer"
+                  >
+                    Stop replay
+                  </button>
+                ) : (
+                  <label className="px-4 py-2 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer">
+                    Replay…
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+                  </label>
+                )}
               </div>
             </div>
           </div>
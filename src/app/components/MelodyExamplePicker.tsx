@@ -0,0 +1,219 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useHarmonizer } from '../../hooks/useHarmonizer';
+import { audioEngine } from '../../utils/audioEngine';
+import { downloadBlob } from '../../utils/download';
+import { MELODY_EXAMPLES } from '../../utils/melodyExamples';
+import { MelodyExample, midiToNoteName } from '../../types/harmonizer';
+
+interface MelodyExamplePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type GenreFilter = MelodyExample['genre'] | 'all';
+type DifficultyFilter = MelodyExample['difficulty'] | 'all';
+
+const GENRES: GenreFilter[] = ['all', 'classical', 'folk', 'pop', 'jazz'];
+const DIFFICULTIES: DifficultyFilter[] = ['all', 'easy', 'medium', 'hard'];
+const NOTE_DURATION = 500; // ms per melody note during playback
+
+type ExportFormat = 'midi' | 'musicxml' | 'wav';
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; extension: string }> = [
+  { format: 'midi', label: 'MIDI', extension: 'mid' },
+  { format: 'musicxml', label: 'MusicXML', extension: 'musicxml' },
+  { format: 'wav', label: 'WAV', extension: 'wav' }
+];
+
+export default function MelodyExamplePicker({ isOpen, onClose }: MelodyExamplePickerProps) {
+  if (!isOpen) return null;
+
+  // Mounted only while open, so the harmonizer model loads on demand
+  return <MelodyExampleBrowser onClose={onClose} />;
+}
+
+function MelodyExampleBrowser({ onClose }: { onClose: () => void }) {
+  const [genre, setGenre] = useState<GenreFilter>('all');
+  const [difficulty, setDifficulty] = useState<DifficultyFilter>('all');
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const {
+    isLoading,
+    isReady,
+    error,
+    harmonizeMelody,
+    currentSequence,
+    exportSequenceMidi,
+    exportSequenceMusicXml,
+    exportSequenceWav
+  } = useHarmonizer();
+
+  const examples = MELODY_EXAMPLES.filter(example =>
+    (genre === 'all' || example.genre === genre) &&
+    (difficulty === 'all' || example.difficulty === difficulty)
+  );
+
+  const stopPlayback = useCallback(() => {
+    if (stopTimerRef.current) {
+      clearTimeout(stopTimerRef.current);
+      stopTimerRef.current = null;
+    }
+    audioEngine.stopAll();
+    setPlayingId(null);
+  }, []);
+
+  const playExample = useCallback(async (example: MelodyExample) => {
+    stopPlayback();
+    setPlaybackError(null);
+
+    try {
+      const sequence = await harmonizeMelody(example.melody, example.title, NOTE_DURATION);
+      setPlayingId(example.id);
+      await audioEngine.playSequence(sequence);
+
+      // Clear the playing state once the last chord has been released
+      stopTimerRef.current = setTimeout(() => {
+        stopTimerRef.current = null;
+        setPlayingId(null);
+      }, example.melody.length * NOTE_DURATION + 1000);
+    } catch (err) {
+      console.error('Example playback failed:', err);
+      setPlaybackError('Could not play this example.');
+      setPlayingId(null);
+    }
+  }, [harmonizeMelody, stopPlayback]);
+
+  // Download the last harmonized example in any of the export formats
+  const downloadSequence = useCallback(async (format: ExportFormat, extension: string) => {
+    if (!currentSequence) return;
+    setExporting(format);
+    setPlaybackError(null);
+
+    try {
+      const blob = format === 'midi'
+        ? exportSequenceMidi()
+        : format === 'musicxml'
+          ? exportSequenceMusicXml()
+          : await exportSequenceWav();
+      if (blob) {
+        const name = currentSequence.title.toLowerCase().replace(/[^\w-]+/g, '-');
+        downloadBlob(blob, `${name}.${extension}`);
+      }
+    } catch (err) {
+      console.error('Example export failed:', err);
+      setPlaybackError('Could not export this example.');
+    } finally {
+      setExporting(null);
+    }
+  }, [currentSequence, exportSequenceMidi, exportSequenceMusicXml, exportSequenceWav]);
+
+  // Stop anything still sounding when the browser closes
+  useEffect(() => {
+    return () => stopPlayback();
+  }, [stopPlayback]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative z-[110] w-full max-w-2xl bg-[#F5F5DC] border border-black/20 rounded-[2.5rem] shadow-2xl overflow-hidden font-serif italic flex flex-col max-h-[90vh]">
+        <div className="absolute inset-0 bg-noise pointer-events-none z-0"></div>
+
+        {/* Header */}
+        <div className="relative z-10 px-8 pt-8 flex justify-between items-start">
+          <h2 className="text-4xl tracking-tight text-black">Hear the Choir</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:opacity-60 transition-opacity text-2xl cursor-pointer"
+            aria-label="Close examples"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="relative z-10 px-8 pt-4 flex flex-wrap gap-4 text-sm not-italic">
+          <div className="flex gap-1">
+            {GENRES.map(option => (
+              <button
+                key={option}
+                onClick={() => setGenre(option)}
+                className={`px-3 py-1 rounded-full capitalize cursor-pointer ${genre === option ? 'bg-black text-[#F5F5DC]' : 'border border-black/20 hover:bg-white/40'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {DIFFICULTIES.map(option => (
+              <button
+                key={option}
+                onClick={() => setDifficulty(option)}
+                className={`px-3 py-1 rounded-full capitalize cursor-pointer ${difficulty === option ? 'bg-black text-[#F5F5DC]' : 'border border-black/20 hover:bg-white/40'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Example List */}
+        <div className="relative z-10 p-8 pt-4 overflow-y-auto space-y-3 text-black">
+          {isLoading && <p className="text-sm text-black/60">Loading harmonizer...</p>}
+          {error && <p className="text-sm text-red-500 not-italic">{error}</p>}
+          {playbackError && <p className="text-sm text-red-500 not-italic">{playbackError}</p>}
+
+          {examples.map(example => (
+            <div
+              key={example.id}
+              className="flex items-center justify-between gap-4 p-4 border border-black/10 rounded-2xl bg-white/30"
+            >
+              <div>
+                <div className="text-lg">{example.title}</div>
+                <div className="text-sm text-black/60 not-italic">{example.description}</div>
+                <div className="text-xs text-black/40 not-italic capitalize mt-1">
+                  {example.genre} · {example.difficulty}
+                  {playingId === example.id && currentSequence && (
+                    <> · {currentSequence.harmonies.length} chords from {midiToNoteName(example.melody[0])}</>
+                  )}
+                </div>
+                {/* Exports of the example harmonized last */}
+                {currentSequence?.title === example.title && (
+                  <div className="flex gap-1 mt-2 text-xs not-italic">
+                    {EXPORT_FORMATS.map(({ format, label, extension }) => (
+                      <button
+                        key={format}
+                        onClick={() => downloadSequence(format, extension)}
+                        disabled={exporting !== null}
+                        className="px-3 py-1 rounded-full border border-black/20 hover:bg-white/40 cursor-pointer disabled:opacity-40"
+                      >
+                        {exporting === format ? 'Exporting…' : `↓ ${label}`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => playingId === example.id ? stopPlayback() : playExample(example)}
+                disabled={!isReady}
+                className="shrink-0 px-5 py-2 bg-black text-[#F5F5DC] rounded-xl hover:scale-105 transition-transform cursor-pointer disabled:opacity-40 not-italic"
+              >
+                {playingId === example.id ? '■ Stop' : '▶ Play'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
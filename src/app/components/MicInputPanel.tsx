@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { midiToNoteName } from '../../types/harmonizer';
+import { MicPitchInput, PitchFrame, PitchQuantizer } from '../../utils/micPitch';
+
+interface MicInputPanelProps {
+  onNoteChange: (note: number | null) => void; // null once the singer stops
+}
+
+export default function MicInputPanel({ onNoteChange }: MicInputPanelProps) {
+  const inputRef = useRef(new MicPitchInput());
+  const quantizerRef = useRef(new PitchQuantizer());
+  const onNoteChangeRef = useRef(onNoteChange);
+  const [isListening, setIsListening] = useState(false);
+  const [note, setNote] = useState<number | null>(null);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onNoteChangeRef.current = onNoteChange;
+  }, [onNoteChange]);
+
+  const handleFrame = useCallback((frame: PitchFrame) => {
+    setLevel(Math.min(1, frame.rms * 10));
+
+    const previous = quantizerRef.current.current;
+    const next = quantizerRef.current.push(frame);
+    if (next !== previous) {
+      setNote(next);
+      onNoteChangeRef.current(next);
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    await inputRef.current.stop();
+    quantizerRef.current.reset();
+    setIsListening(false);
+    setNote(null);
+    setLevel(0);
+    onNoteChangeRef.current(null);
+  }, []);
+
+  const start = useCallback(async () => {
+    setError(null);
+    try {
+      await inputRef.current.start(handleFrame);
+      setIsListening(true);
+    } catch (err) {
+      console.error('Microphone pitch input failed:', err);
+      setError(err instanceof Error ? err.message : 'Microphone access was refused');
+    }
+  }, [handleFrame]);
+
+  // Let go of the microphone when the panel goes away
+  useEffect(() => {
+    const input = inputRef.current;
+    return () => {
+      input.stop().catch(err => console.error('Failed to stop microphone:', err));
+    };
+  }, []);
+
+  return (
+    <div className="space-y-2 text-sm text-center">
+      <button
+        onClick={isListening ? stop : start}
+        className="px-4 py-2 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer"
+      >
+        {isListening ? 'Stop microphone' : 'Sing into microphone'}
+      </button>
+
+      {isListening && (
+        <>
+          <div className="text-2xl font-bold">{note === null ? '—' : midiToNoteName(note)}</div>
+          <div className="h-1 bg-black/10 rounded-full overflow-hidden">
+            <div className="h-full bg-black/60 transition-all duration-75" style={{ width: `${level * 100}%` }} />
+          </div>
+          <div className="text-xs text-black/40">Headphones keep the choir out of the microphone</div>
+        </>
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { listenToMidiInput, MidiNoteHandlers } from '../../utils/midiInput';
+import { requestMidiAccess } from '../../utils/midiOutput';
+
+type MidiInputPanelProps = MidiNoteHandlers;
+
+export default function MidiInputPanel({ onNoteOn, onNoteOff }: MidiInputPanelProps) {
+  const [access, setAccess] = useState<MIDIAccess | null>(null);
+  const [inputs, setInputs] = useState<MIDIInput[]>([]);
+  const [inputId, setInputId] = useState('');
+  const [lastNote, setLastNote] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = useCallback(async () => {
+    setError(null);
+    try {
+      setAccess(await requestMidiAccess());
+    } catch (err) {
+      console.error('MIDI access failed:', err);
+      setError(err instanceof Error ? err.message : 'MIDI access was refused');
+    }
+  }, []);
+
+  // Keep the device list current, picking the first keyboard when none is chosen
+  useEffect(() => {
+    if (!access) return;
+
+    const refresh = () => {
+      const available = Array.from(access.inputs.values());
+      setInputs(available);
+      setInputId(current => current || available[0]?.id || '');
+    };
+    refresh();
+    access.addEventListener('statechange', refresh);
+    return () => access.removeEventListener('statechange', refresh);
+  }, [access]);
+
+  useEffect(() => {
+    const input = inputs.find(candidate => candidate.id === inputId);
+    if (!input) return;
+
+    return listenToMidiInput(input, {
+      onNoteOn: (note, velocity) => {
+        setLastNote(note);
+        onNoteOn(note, velocity);
+      },
+      onNoteOff
+    });
+  }, [inputs, inputId, onNoteOn, onNoteOff]);
+
+  if (!access) {
+    return (
+      <div className="text-center">
+        <button
+          onClick={connect}
+          className="px-4 py-2 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer text-sm"
+        >
+          Connect MIDI keyboard
+        </button>
+        {error && <div className="mt-2 text-xs text-red-500">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <select
+        value={inputId}
+        onChange={(e) => setInputId(e.target.value)}
+        className="w-full bg-transparent border border-black/20 rounded-md px-2 py-1"
+        aria-label="MIDI input device"
+      >
+        {inputs.length === 0 && <option value="">No devices found</option>}
+        {inputs.map(input => (
+          <option key={input.id} value={input.id}>{input.name ?? input.id}</option>
+        ))}
+      </select>
+      <div className="text-xs text-black/40 text-center">
+        {lastNote === null ? 'Play a key to start' : 'Velocity sets the volume; let go to stop'}
+      </div>
+    </div>
+  );
+}
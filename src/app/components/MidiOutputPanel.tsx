@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { audioEngine } from '../../utils/audioEngine';
+import { MidiChannelMap, MidiOutputController, requestMidiAccess } from '../../utils/midiOutput';
+import { SEQUENCE_PARTS, SequencePart } from '../../utils/sequenceTimeline';
+
+interface MidiOutputPanelProps {
+  controller: MidiOutputController;
+}
+
+const PART_LABELS: Record<SequencePart, string> = {
+  melody: 'Melody',
+  soprano: 'Soprano',
+  alto: 'Alto',
+  tenor: 'Tenor',
+  bass: 'Bass'
+};
+
+export default function MidiOutputPanel({ controller }: MidiOutputPanelProps) {
+  const [access, setAccess] = useState<MIDIAccess | null>(null);
+  const [outputs, setOutputs] = useState<MIDIOutput[]>([]);
+  const [outputId, setOutputId] = useState('');
+  const [channels, setChannels] = useState<MidiChannelMap>(() => controller.getChannels());
+  const [isMuted, setIsMuted] = useState(() => audioEngine.isMuted());
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = useCallback(async () => {
+    setError(null);
+    try {
+      setAccess(await requestMidiAccess());
+    } catch (err) {
+      console.error('MIDI access failed:', err);
+      setError(err instanceof Error ? err.message : 'MIDI access was refused');
+    }
+  }, []);
+
+  // Keep the device list current as gear is plugged in and out
+  useEffect(() => {
+    if (!access) return;
+
+    const refresh = () => setOutputs(Array.from(access.outputs.values()));
+    refresh();
+    access.addEventListener('statechange', refresh);
+    return () => access.removeEventListener('statechange', refresh);
+  }, [access]);
+
+  // Route to the chosen device, or nowhere if it has gone away
+  useEffect(() => {
+    const output = outputs.find(candidate => candidate.id === outputId) ?? null;
+    controller.setOutput(output);
+  }, [controller, outputs, outputId]);
+
+  const updateChannel = useCallback((part: SequencePart, channel: number) => {
+    controller.setChannels({ [part]: channel });
+    setChannels(controller.getChannels());
+  }, [controller]);
+
+  const toggleMuted = useCallback((muted: boolean) => {
+    audioEngine.setMuted(muted);
+    setIsMuted(muted);
+  }, []);
+
+  return (
+    <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm not-italic">
+      <div className="text-black/60 text-xs mb-3 text-center">MIDI Out</div>
+
+      {!access ? (
+        <div className="text-center">
+          <button
+            onClick={connect}
+            className="px-4 py-2 border border-black/20 rounded-lg hover:bg-white/40 cursor-pointer text-sm"
+          >
+            Connect MIDI
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2 text-sm">
+          <select
+            value={outputId}
+            onChange={(e) => setOutputId(e.target.value)}
+            className="w-full bg-transparent border border-black/20 rounded-md px-2 py-1"
+            aria-label="MIDI output device"
+          >
+            <option value="">{outputs.length > 0 ? 'No output' : 'No devices found'}</option>
+            {outputs.map(output => (
+              <option key={output.id} value={output.id}>{output.name ?? output.id}</option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            {SEQUENCE_PARTS.map(part => (
+              <label key={part} className="flex items-center justify-between gap-1">
+                <span className="text-black/60">{PART_LABELS[part]}</span>
+                <select
+                  value={channels[part]}
+                  onChange={(e) => updateChannel(part, Number(e.target.value))}
+                  className="bg-transparent border border-black/20 rounded-md px-1"
+                  aria-label={`${PART_LABELS[part]} MIDI channel`}
+                >
+                  {Array.from({ length: 16 }, (_, channel) => (
+                    <option key={channel} value={channel}>Ch {channel + 1}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-center gap-2 text-xs text-black/60 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isMuted}
+              onChange={(e) => toggleMuted(e.target.checked)}
+              className="accent-black"
+            />
+            Mute built-in synth
+          </label>
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-xs text-red-500 text-center">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { audioEngine, ChannelStrip, MixerSettings } from '../../utils/audioEngine';
+import {
+  INSTRUMENT_PRESETS,
+  InstrumentId,
+  InstrumentSelection,
+  saveInstrumentSelection
+} from '../../utils/instruments';
+import { VoiceType } from '../../types/harmonizer';
+
+const PARTS: Array<{ part: VoiceType; label: string }> = [
+  { part: 'soprano', label: 'S' },
+  { part: 'alto', label: 'A' },
+  { part: 'tenor', label: 'T' },
+  { part: 'bass', label: 'B' }
+];
+
+export default function MixerPanel() {
+  const [mixer, setMixer] = useState<MixerSettings>(() => audioEngine.getMixer());
+  const [instruments, setInstruments] = useState<InstrumentSelection>(() => audioEngine.getInstruments());
+
+  const updateChannel = useCallback((part: VoiceType, changes: Partial<ChannelStrip>) => {
+    audioEngine.setChannel(part, changes);
+    setMixer(audioEngine.getMixer());
+  }, []);
+
+  const updateInstrument = useCallback((part: VoiceType, instrument: InstrumentId) => {
+    audioEngine.setInstrument(part, instrument);
+    const selection = audioEngine.getInstruments();
+    saveInstrumentSelection(selection);
+    setInstruments(selection);
+  }, []);
+
+  const anySolo = PARTS.some(({ part }) => mixer[part].solo);
+
+  return (
+    <div className="p-4 border border-black/10 rounded-2xl bg-white/30 backdrop-blur-sm not-italic">
+      <div className="text-black/60 text-xs mb-3 text-center">Mixer</div>
+      <div className="space-y-2">
+        {PARTS.map(({ part, label }) => {
+          const strip = mixer[part];
+          // Dim parts that are silenced by a mute or by another part's solo
+          const audible = anySolo ? strip.solo : !strip.mute;
+
+          return (
+            <div key={part} className={`flex items-center gap-2 text-sm ${audible ? '' : 'opacity-40'}`}>
+              <span className="w-4 font-bold text-black/60" title={part}>{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={strip.gain}
+                onChange={(e) => updateChannel(part, { gain: Number(e.target.value) })}
+                className="flex-1 min-w-0 accent-black"
+                aria-label={`${part} level`}
+              />
+              <input
+                type="range"
+                min={-1}
+                max={1}
+                step={0.1}
+                value={strip.pan}
+                onChange={(e) => updateChannel(part, { pan: Number(e.target.value) })}
+                onDoubleClick={() => updateChannel(part, { pan: 0 })}
+                className="w-14 accent-black"
+                aria-label={`${part} pan`}
+              />
+              <button
+                onClick={() => updateChannel(part, { mute: !strip.mute })}
+                className={`w-6 h-6 rounded text-xs cursor-pointer ${strip.mute ? 'bg-black text-[#F5F5DC]' : 'border border-black/20 hover:bg-white/40'}`}
+                aria-pressed={strip.mute}
+                aria-label={`Mute ${part}`}
+              >
+                M
+              </button>
+              <button
+                onClick={() => updateChannel(part, { solo: !strip.solo })}
+                className={`w-6 h-6 rounded text-xs cursor-pointer ${strip.solo ? 'bg-black text-[#F5F5DC]' : 'border border-black/20 hover:bg-white/40'}`}
+                aria-pressed={strip.solo}
+                aria-label={`Solo ${part}`}
+              >
+                S
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Instrument per part, remembered between visits */}
+      <div className="mt-4 grid grid-cols-2 gap-2 text-xs">
+        {PARTS.map(({ part, label }) => (
+          <label key={part} className="flex items-center gap-1">
+            <span className="w-4 font-bold text-black/60">{label}</span>
+            <select
+              value={instruments[part]}
+              onChange={(e) => updateInstrument(part, e.target.value as InstrumentId)}
+              className="flex-1 min-w-0 bg-transparent border border-black/20 rounded-md px-1 py-1"
+              aria-label={`${part} instrument`}
+            >
+              {Object.values(INSTRUMENT_PRESETS).map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
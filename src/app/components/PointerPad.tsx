@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { HandPosition, Vowel, VolumeHand } from '../../types/performance';
+import { MonophonicNoteTracker } from '../../utils/midiInput';
+import { scaleIndexToPitch } from '../../utils/scales';
+
+interface PointerPadProps {
+  noteCount: number; // notes on the pitch axis, for the keyboard mapping
+  onControlHand: (hand: HandPosition) => void;
+  onVolumeHand: (hand: VolumeHand) => void;
+}
+
+// Home row plays the pitch axis from the bottom up, the number row picks the vowel
+const NOTE_KEYS = ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon'];
+const VOWEL_KEYS: Record<string, Vowel> = { Digit1: 'A', Digit2: 'E', Digit3: 'I', Digit4: 'O', Digit5: 'U' };
+const VOLUME_STEP = 0.1;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const relativePosition = (element: HTMLElement | null, event: React.PointerEvent) => {
+  const rect = element!.getBoundingClientRect();
+  return {
+    x: clamp01((event.clientX - rect.left) / rect.width),
+    y: clamp01((event.clientY - rect.top) / rect.height)
+  };
+};
+
+// Stands in for the camera: pointer, touch and keyboard produce the same hand data MediaPipe does
+export default function PointerPad({ noteCount, onControlHand, onVolumeHand }: PointerPadProps) {
+  const controlAreaRef = useRef<HTMLDivElement>(null);
+  const volumeAreaRef = useRef<HTMLDivElement>(null);
+  const controlPointerRef = useRef<number | null>(null);
+  const volumePointerRef = useRef<number | null>(null);
+  const heldKeysRef = useRef(new MonophonicNoteTracker());
+  const [vowel, setVowel] = useState<Vowel>('A');
+  // Control position in screen space (x left to right, y top to bottom), null when nothing is held
+  const [position, setPosition] = useState<{ x: number; y: number } | null>(null);
+  const [volumeY, setVolumeY] = useState(0.5);
+  const volumeYRef = useRef(0.5);
+
+  // The camera image is mirrored, so hand x runs right to left on screen
+  useEffect(() => {
+    onControlHand(position
+      ? { x: 1 - position.x, y: position.y, detected: true, vowel }
+      : { x: 0.5, y: 0.5, detected: false, vowel: 'NONE' });
+  }, [position, vowel, onControlHand]);
+
+  const handleControlDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (controlPointerRef.current !== null) return;
+    controlPointerRef.current = event.pointerId;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setPosition(relativePosition(controlAreaRef.current, event));
+  }, []);
+
+  const handleControlMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== controlPointerRef.current) return;
+    setPosition(relativePosition(controlAreaRef.current, event));
+  }, []);
+
+  const handleControlUp = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== controlPointerRef.current) return;
+    controlPointerRef.current = null;
+    setPosition(null);
+  }, []);
+
+  const updateVolume = useCallback((y: number) => {
+    volumeYRef.current = y;
+    setVolumeY(y);
+    onVolumeHand({ y, detected: true });
+  }, [onVolumeHand]);
+
+  const handleVolumeDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (volumePointerRef.current !== null) return;
+    volumePointerRef.current = event.pointerId;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    updateVolume(relativePosition(volumeAreaRef.current, event).y);
+  }, [updateVolume]);
+
+  const handleVolumeMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== volumePointerRef.current) return;
+    updateVolume(relativePosition(volumeAreaRef.current, event).y);
+  }, [updateVolume]);
+
+  // The volume stays where it was left, like a fader
+  const handleVolumeUp = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId === volumePointerRef.current) volumePointerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const heldKeys = heldKeysRef.current;
+
+    const playKey = (index: number | undefined) => {
+      if (index === undefined) {
+        if (controlPointerRef.current === null) setPosition(null);
+        return;
+      }
+      setPosition({ x: 0.5, y: 1 - scaleIndexToPitch(index, noteCount) });
+    };
+
+    const isTyping = (target: EventTarget | null) => {
+      return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.metaKey || event.ctrlKey || event.altKey || isTyping(event.target)) return;
+
+      const index = NOTE_KEYS.indexOf(event.code);
+      if (index !== -1 && index < noteCount) {
+        event.preventDefault();
+        heldKeys.press(index, 127);
+        playKey(index);
+      } else if (VOWEL_KEYS[event.code]) {
+        setVowel(VOWEL_KEYS[event.code]);
+      } else if (event.code === 'ArrowUp' || event.code === 'ArrowDown') {
+        event.preventDefault();
+        updateVolume(clamp01(volumeYRef.current + (event.code === 'ArrowUp' ? -VOLUME_STEP : VOLUME_STEP)));
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const index = NOTE_KEYS.indexOf(event.code);
+      if (index === -1) return;
+      playKey(heldKeys.release(index)?.note);
+    };
+
+    // Keys held while the window loses focus would otherwise never be released
+    const handleBlur = () => {
+      heldKeys.clear();
+      playKey(undefined);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [noteCount, updateVolume]);
+
+  return (
+    <div className="absolute inset-0 z-20 flex select-none touch-none not-italic">
+      {/* Volume strip, standing in for the second hand */}
+      <div
+        ref={volumeAreaRef}
+        onPointerDown={handleVolumeDown}
+        onPointerMove={handleVolumeMove}
+        onPointerUp={handleVolumeUp}
+        onPointerCancel={handleVolumeUp}
+        className="relative w-16 border-r border-black/10 bg-white/30 cursor-ns-resize"
+        aria-label="Volume"
+      >
+        <div className="absolute inset-x-0 bottom-0 bg-black/10" style={{ height: `${(1 - volumeY) * 100}%` }} />
+        <div className="absolute inset-x-0 bottom-2 text-center text-[10px] text-black/50">Vol</div>
+      </div>
+
+      {/* Pitch and harmony area */}
+      <div
+        ref={controlAreaRef}
+        onPointerDown={handleControlDown}
+        onPointerMove={handleControlMove}
+        onPointerUp={handleControlUp}
+        onPointerCancel={handleControlUp}
+        className="relative flex-1 cursor-crosshair"
+        aria-label="Pitch and harmony pad"
+      >
+        {position && (
+          <div
+            className="absolute w-6 h-6 -translate-x-1/2 -translate-y-1/2 rounded-full bg-black border-2 border-[#F5F5DC] pointer-events-none"
+            style={{ left: `${position.x * 100}%`, top: `${position.y * 100}%` }}
+          />
+        )}
+        <div className="absolute inset-x-0 bottom-3 text-center text-xs text-black/50 pointer-events-none">
+          Drag to play · A–; keys play notes · 1–5 pick the vowel ({vowel}) · ↑↓ volume
+        </div>
+      </div>
+    </div>
+  );
+}
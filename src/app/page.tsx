@@ -3,12 +3,13 @@
 import { useState } from 'react';
 import HandGestureTest from './components/HandGestureTest';
 import AboutModal from './components/AboutModal';
-
-type HandPreference = 'left' | 'right' | null;
+import MelodyExamplePicker from './components/MelodyExamplePicker';
+import { HandPreference } from '../types/performance';
 
 export default function Home() {
   const [selectedHand, setSelectedHand] = useState<HandPreference>(null);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const [isExamplesOpen, setIsExamplesOpen] = useState(false);
 
   if (selectedHand) {
     return (
@@ -50,6 +51,12 @@ export default function Home() {
           Right Hand
         </button>
       </div>
+      <button
+        onClick={() => setIsExamplesOpen(true)}
+        className="z-20 mt-4 text-base underline underline-offset-4 decoration-1 hover:opacity-60 transition-opacity cursor-pointer"
+      >
+        Hear some examples first
+      </button>
 
       {/* Main Action Area */}
       <div className="flex-grow flex flex-col items-center justify-end w-full relative pb-0">
@@ -80,6 +87,11 @@ export default function Home() {
         isOpen={isAboutOpen}
         onClose={() => setIsAboutOpen(false)}
       />
+
+      <MelodyExamplePicker
+        isOpen={isExamplesOpen}
+        onClose={() => setIsExamplesOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
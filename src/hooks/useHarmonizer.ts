@@ -1,13 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   HarmonizerState, 
-  HarmonizerWorkerMessage, 
   HarmonyChord, 
   HarmonySequence,
+  HarmonizerStateSnapshot,
   MelodyNote,
-  HarmonizerNote,
+  SamplingOptions,
   midiToNoteName
 } from '../types/harmonizer';
+import {
+  HarmonizerClient,
+  HarmonizerClientError,
+  isHarmonizerCancellation
+} from '../utils/harmonizerClient';
+import { sequenceToMidi } from '../utils/midiExport';
+import { sequenceToMusicXml } from '../utils/musicXmlExport';
+import { renderSequenceToWav, WavBitDepth } from '../utils/offlineRender';
+import { audioEngine } from '../utils/audioEngine';
 
 export const useHarmonizer = () => {
   const [state, setState] = useState<HarmonizerState>({
@@ -21,93 +30,115 @@ export const useHarmonizer = () => {
   const [isRealTimeMode, setIsRealTimeMode] = useState(false);
   const [currentHarmony, setCurrentHarmony] = useState<HarmonyChord | null>(null);
 
-  const workerRef = useRef<Worker | null>(null);
+  // Sampling and ranked alternative voicings
+  const [samplingOptions, setSamplingOptions] = useState<SamplingOptions>({ temperature: 0 });
+  const [alternativeCount, setAlternativeCount] = useState(1);
+  const [alternatives, setAlternatives] = useState<HarmonyChord[]>([]);
+  const [alternativeIndex, setAlternativeIndex] = useState(0);
+
+  const clientRef = useRef<HarmonizerClient | null>(null);
   const sequenceRef = useRef<HarmonySequence | null>(null);
+  const realTimeRequestRef = useRef<AbortController | null>(null);
+  // Model state captured before each sequence note, for undo
+  const historyRef = useRef<Promise<HarmonizerStateSnapshot>[]>([]);
+  // Advances the seed per request so a seeded run is reproducible but not repetitive
+  const requestCountRef = useRef(0);
+
+  const nextSamplingOptions = useCallback((): SamplingOptions => {
+    const { temperature, seed } = samplingOptions;
+    return {
+      temperature,
+      seed: seed === undefined ? undefined : seed + requestCountRef.current++
+    };
+  }, [samplingOptions]);
 
-  // Handle received harmony from worker
-  const handleHarmonyReceived = useCallback((notes: HarmonizerNote[]) => {
-    if (notes.length < 4) return;
+  // Add a melody note and the chord it received together, so the two lists stay in step
+  const appendStep = useCallback((melodyNote: MelodyNote, chord: HarmonyChord) => {
+    if (!sequenceRef.current) return;
 
-    const [soprano, alto, tenor, bass] = notes;
-    const newChord: HarmonyChord = {
-      soprano,
-      alto,
-      tenor,
-      bass
+    const updatedSequence = {
+      ...sequenceRef.current,
+      melody: [...sequenceRef.current.melody, melodyNote],
+      harmonies: [...sequenceRef.current.harmonies, chord]
     };
+    sequenceRef.current = updatedSequence;
 
-    // Always update current harmony for real-time display
-    setCurrentHarmony(newChord);
+    setState(prev => ({
+      ...prev,
+      currentSequence: updatedSequence
+    }));
+  }, []);
 
-    // Also add to current sequence if not in real-time mode
-    if (!isRealTimeMode && sequenceRef.current) {
-      const updatedSequence = {
-        ...sequenceRef.current,
-        harmonies: [...sequenceRef.current.harmonies, newChord]
-      };
-      sequenceRef.current = updatedSequence;
-      
+  // Initialize the harmonizer worker
+  useEffect(() => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    let client: HarmonizerClient;
+    try {
+      client = new HarmonizerClient();
+    } catch (error) {
       setState(prev => ({
         ...prev,
-        currentSequence: updatedSequence
+        isLoading: false,
+        isReady: false,
+        error: error instanceof Error ? error.message : 'Failed to initialize harmonizer'
       }));
+      return;
     }
-  }, [isRealTimeMode]);
+    clientRef.current = client;
 
-  // Initialize the harmonizer worker
-  useEffect(() => {
-    const initializeHarmonizer = async () => {
-      try {
-        setState(prev => ({ ...prev, isLoading: true, error: null }));
-
-        // Create the worker
-        const worker = new Worker('/harmonizer/harmonizerworker.js');
-        workerRef.current = worker;
-
-        // Set up message handling
-        worker.onmessage = (event: HarmonizerWorkerMessage) => {
-          const { data } = event;
-          
-          if (data.type === 'Loaded') {
-            setState(prev => ({
-              ...prev,
-              isLoading: false,
-              isReady: true,
-              error: null
-            }));
-          } else if (data.type === 'Notes' && data.notes) {
-            handleHarmonyReceived(data.notes);
-          }
-        };
-
-        worker.onerror = (error) => {
-          setState(prev => ({
-            ...prev,
-            isLoading: false,
-            isReady: false,
-            error: `Harmonizer failed to load: ${error.message}`
-          }));
-        };
-
-      } catch (error) {
+    client.ready
+      .then(() => {
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          isReady: true,
+          error: null
+        }));
+      })
+      .catch((error: HarmonizerClientError) => {
+        if (error.code === 'terminated') return;
         setState(prev => ({
           ...prev,
           isLoading: false,
           isReady: false,
-          error: error instanceof Error ? error.message : 'Failed to initialize harmonizer'
+          error: error.message
         }));
-      }
-    };
-
-    initializeHarmonizer();
+      });
 
     // Cleanup
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-      }
+      client.terminate();
+      clientRef.current = null;
     };
-  }, [handleHarmonyReceived]);
+  }, []);
+
+  // Return the model to its initial context so earlier notes no longer influence the harmony
+  const resetHarmonizer = useCallback(() => {
+    historyRef.current = [];
+    requestCountRef.current = 0;
+    const client = clientRef.current;
+    if (!client) return Promise.resolve();
+
+    return client.reset().catch(error => {
+      console.error('Failed to reset harmonizer:', error);
+    });
+  }, []);
+
+  // Capture and restore the model context, e.g. to branch from a point in the melody
+  const snapshotHarmonizer = useCallback(() => {
+    if (!clientRef.current) {
+      return Promise.reject(new Error('Harmonizer not ready'));
+    }
+    return clientRef.current.snapshot();
+  }, []);
+
+  const restoreHarmonizer = useCallback((snapshot: HarmonizerStateSnapshot) => {
+    if (!clientRef.current) {
+      return Promise.reject(new Error('Harmonizer not ready'));
+    }
+    return clientRef.current.restore(snapshot);
+  }, []);
 
   // Start a new harmony sequence
   const startNewSequence = useCallback((title: string = 'New Harmony') => {
@@ -124,67 +155,77 @@ export const useHarmonizer = () => {
       ...prev,
       currentSequence: newSequence
     }));
+    resetHarmonizer();
 
     return newSequence.id;
-  }, []);
+  }, [resetHarmonizer]);
 
   // Add a single note to harmonize
   const harmonizeNote = useCallback((midiNote: number) => {
-    if (!state.isReady || !workerRef.current) {
+    const client = clientRef.current;
+    if (!state.isReady || !client) {
       throw new Error('Harmonizer not ready');
     }
 
-    // Add to melody sequence
-    if (sequenceRef.current) {
-      const melodyNote: MelodyNote = {
-        midiNote,
-        noteName: midiToNoteName(midiNote),
-        timestamp: Date.now()
-      };
+    const melodyNote: MelodyNote = {
+      midiNote,
+      noteName: midiToNoteName(midiNote),
+      timestamp: Date.now()
+    };
 
-      const updatedSequence = {
-        ...sequenceRef.current,
-        melody: [...sequenceRef.current.melody, melodyNote]
-      };
-      
-      sequenceRef.current = updatedSequence;
-      setState(prev => ({
-        ...prev,
-        currentSequence: updatedSequence
-      }));
-    }
+    // Queued ahead of the note, so it captures the context before it
+    const snapshot = sequenceRef.current ? client.snapshot() : null;
+    snapshot?.catch(() => {});
 
-    // Send to worker for harmonization
-    workerRef.current.postMessage({ note: midiNote });
-  }, [state.isReady]);
+    // The note joins the sequence only once it has a chord; replies come back in request order
+    return client.harmonize(midiNote, nextSamplingOptions()).then(chord => {
+      setCurrentHarmony(chord);
+      if (snapshot && sequenceRef.current) {
+        historyRef.current.push(snapshot);
+        appendStep(melodyNote, chord);
+      }
+      return chord;
+    });
+  }, [state.isReady, appendStep, nextSamplingOptions]);
 
-  // Harmonize an entire melody sequence
+  // Harmonize an entire melody sequence in one batch request
   const harmonizeMelody = useCallback(async (
     melody: number[], 
     title: string = 'AI Harmony',
-    delayBetweenNotes: number = 1000
+    noteDuration: number = 1000 // ms between melody timestamps in the resulting sequence
   ) => {
-    if (!state.isReady) {
+    const client = clientRef.current;
+    if (!state.isReady || !client) {
       throw new Error('Harmonizer not ready');
     }
 
     setState(prev => ({ ...prev, isPlaying: true }));
-    startNewSequence(title);
 
     try {
-      for (let i = 0; i < melody.length; i++) {
-        const note = melody[i];
-        harmonizeNote(note);
-        
-        // Wait between notes (except for the last one)
-        if (i < melody.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, delayBetweenNotes));
-        }
-      }
+      const harmonies = await client.harmonizeMelody(melody);
+      const createdAt = new Date();
+      const sequence: HarmonySequence = {
+        id: createdAt.getTime().toString(),
+        title,
+        melody: melody.map((midiNote, i) => ({
+          midiNote,
+          noteName: midiToNoteName(midiNote),
+          timestamp: createdAt.getTime() + i * noteDuration
+        })),
+        harmonies,
+        createdAt
+      };
+
+      // Batch notes have no per-note snapshots to undo to
+      historyRef.current = [];
+      sequenceRef.current = sequence;
+      setState(prev => ({ ...prev, currentSequence: sequence }));
+
+      return sequence;
     } finally {
       setState(prev => ({ ...prev, isPlaying: false }));
     }
-  }, [state.isReady, harmonizeNote, startNewSequence]);
+  }, [state.isReady]);
 
   // Clear current sequence
   const clearSequence = useCallback(() => {
@@ -193,6 +234,32 @@ export const useHarmonizer = () => {
       ...prev,
       currentSequence: null
     }));
+    setCurrentHarmony(null);
+    resetHarmonizer();
+  }, [resetHarmonizer]);
+
+  // Drop the last melody note and rewind the model to before it
+  const undoLastNote = useCallback(async () => {
+    const client = clientRef.current;
+    const sequence = sequenceRef.current;
+    const snapshot = historyRef.current.pop();
+    if (!client || !sequence || !snapshot || sequence.melody.length === 0) return;
+
+    await client.restore(await snapshot);
+
+    const noteCount = sequence.melody.length - 1;
+    const harmonies = sequence.harmonies.slice(0, noteCount);
+    const updatedSequence = {
+      ...sequence,
+      melody: sequence.melody.slice(0, noteCount),
+      harmonies
+    };
+    sequenceRef.current = updatedSequence;
+    setState(prev => ({
+      ...prev,
+      currentSequence: updatedSequence
+    }));
+    setCurrentHarmony(harmonies[harmonies.length - 1] ?? null);
   }, []);
 
   // Get harmony statistics
@@ -219,15 +286,80 @@ export const useHarmonizer = () => {
     return JSON.stringify(state.currentSequence, null, 2);
   }, [state.currentSequence]);
 
+  // Export current sequence as a Standard MIDI File
+  const exportSequenceMidi = useCallback(() => {
+    if (!state.currentSequence) return null;
+
+    return new Blob([sequenceToMidi(state.currentSequence)], { type: 'audio/midi' });
+  }, [state.currentSequence]);
+
+  // Export current sequence as a four-part MusicXML score
+  const exportSequenceMusicXml = useCallback(() => {
+    if (!state.currentSequence) return null;
+
+    return new Blob(
+      [sequenceToMusicXml(state.currentSequence)],
+      { type: 'application/vnd.recordare.musicxml+xml' }
+    );
+  }, [state.currentSequence]);
+
+  // Render current sequence offline to a WAV file
+  const exportSequenceWav = useCallback(async (bitDepth: WavBitDepth = 16) => {
+    if (!state.currentSequence) return null;
+
+    // Render with the instruments and master effects currently in use
+    return renderSequenceToWav(state.currentSequence, {
+      bitDepth,
+      instruments: audioEngine.getInstruments(),
+      effects: audioEngine.getEffectsSettings()
+    });
+  }, [state.currentSequence]);
+
   // Real-time harmonization functions
   const harmonizeNoteRealTime = useCallback((midiNote: number) => {
-    if (!state.isReady || !workerRef.current) {
+    const client = clientRef.current;
+    if (!state.isReady || !client) {
       throw new Error('Harmonizer not ready');
     }
 
-    // Send to worker for harmonization
-    workerRef.current.postMessage({ note: midiNote });
-  }, [state.isReady]);
+    // Only the latest note matters; drop any request that is still waiting
+    realTimeRequestRef.current?.abort();
+    const controller = new AbortController();
+    realTimeRequestRef.current = controller;
+
+    // Ask for ranked voicings when more than one is wanted; otherwise sample a single chord
+    const request = alternativeCount > 1
+      ? client.harmonizeAlternatives(midiNote, alternativeCount, { signal: controller.signal })
+      : client.harmonize(midiNote, { ...nextSamplingOptions(), signal: controller.signal }).then(chord => [chord]);
+
+    // Send to worker for harmonization; resolves to null if superseded
+    return request
+      .then(chords => {
+        setAlternatives(chords);
+        setAlternativeIndex(0);
+        setCurrentHarmony(chords[0]);
+        return chords[0];
+      })
+      .catch(error => {
+        if (isHarmonizerCancellation(error)) return null;
+        throw error;
+      });
+  }, [state.isReady, alternativeCount, nextSamplingOptions]);
+
+  // Switch the sounding chord to another of the ranked voicings
+  const selectAlternative = useCallback((index: number) => {
+    const chord = alternatives[index];
+    if (!chord || index === alternativeIndex) return;
+
+    setAlternativeIndex(index);
+    setCurrentHarmony(chord);
+  }, [alternatives, alternativeIndex]);
+
+  const cycleAlternative = useCallback(() => {
+    if (alternatives.length > 1) {
+      selectAlternative((alternativeIndex + 1) % alternatives.length);
+    }
+  }, [alternatives.length, alternativeIndex, selectAlternative]);
 
   const toggleRealTimeMode = useCallback(() => {
     setIsRealTimeMode(prev => !prev);
@@ -237,8 +369,16 @@ export const useHarmonizer = () => {
     }
   }, [isRealTimeMode]);
 
+  // Drop the pending real-time request so a released note doesn't start a chord late
+  const cancelRealTimeRequest = useCallback(() => {
+    realTimeRequestRef.current?.abort();
+    realTimeRequestRef.current = null;
+  }, []);
+
   const clearCurrentHarmony = useCallback(() => {
     setCurrentHarmony(null);
+    setAlternatives([]);
+    setAlternativeIndex(0);
   }, []);
 
   return {
@@ -252,20 +392,36 @@ export const useHarmonizer = () => {
     // Real-time state
     isRealTimeMode,
     currentHarmony,
+    alternatives,
+    alternativeIndex,
+    samplingOptions,
+    alternativeCount,
     
     // Actions
     harmonizeNote,
     harmonizeMelody,
     startNewSequence,
     clearSequence,
+    undoLastNote,
+    resetHarmonizer,
+    snapshotHarmonizer,
+    restoreHarmonizer,
     
     // Real-time actions
     harmonizeNoteRealTime,
+    cancelRealTimeRequest,
     toggleRealTimeMode,
     clearCurrentHarmony,
+    selectAlternative,
+    cycleAlternative,
+    setSamplingOptions,
+    setAlternativeCount,
     
     // Utils
     getStats,
-    exportSequence
+    exportSequence,
+    exportSequenceMidi,
+    exportSequenceMusicXml,
+    exportSequenceWav
   };
 };
@@ -0,0 +1,48 @@
+// Hand tracker results, independent of the MediaPipe build that produced them
+
+export interface HandLandmark {
+  x: number; // 0-1 across the image, or metres in world space
+  y: number; // 0-1 down the image, or metres in world space
+  z: number; // depth relative to the wrist
+}
+
+// MediaPipe labels assume a mirrored (selfie) image
+export type Handedness = 'Left' | 'Right';
+
+export interface TrackedHand {
+  landmarks: HandLandmark[]; // 21 points normalized to the image
+  worldLandmarks: HandLandmark[]; // the same points in metres around the hand's centre
+  handedness: Handedness;
+  handednessScore: number; // 0-1
+}
+
+export interface HandTrackingResult {
+  timestamp: number; // ms, as passed to the tracker
+  hands: TrackedHand[];
+}
+
+export interface HandTrackerOptions {
+  numHands?: number;
+  minHandDetectionConfidence?: number;
+  minHandPresenceConfidence?: number;
+  minTrackingConfidence?: number;
+}
+
+// HandLandmarkerResult as it crosses from the worker, before conversion
+export interface RawHandLandmarkerResult {
+  landmarks: HandLandmark[][];
+  worldLandmarks: HandLandmark[][];
+  handedness: Array<Array<{ score: number; categoryName: string }>>;
+}
+
+// Client -> worker
+export type HandTrackerRequest =
+  | { type: 'Init'; assetBaseUrl: string; options: HandTrackerOptions }
+  | { type: 'Detect'; id: number; frame: ImageBitmap; timestamp: number }
+  | { type: 'Close' };
+
+// Worker -> client; `id` echoes the Detect request it answers
+export type HandTrackerMessage =
+  | { type: 'Ready' }
+  | { type: 'Result'; id: number; result: RawHandLandmarkerResult }
+  | { type: 'Error'; id?: number; message: string };
@@ -13,11 +13,37 @@ export interface HarmonyChord {
   bass: HarmonizerNote;
 }
 
+// Recurrent (LSTM) context of the harmonizer model
+export interface HarmonizerStateSnapshot {
+  hs: Float32Array;
+  cs: Float32Array;
+  output: Float32Array;
+}
+
+// Worker -> client; `id` echoes the request it answers
 export interface HarmonizerMessage {
-  type: 'Loaded' | 'Notes';
+  type: 'Loaded' | 'Notes' | 'Alternatives' | 'Chords' | 'Reset' | 'Snapshot' | 'Restored';
+  id?: number;
   notes?: HarmonizerNote[];
+  chords?: HarmonizerNote[][]; // Ranked alternatives, or one chord per melody note
+  state?: HarmonizerStateSnapshot;
 }
 
+// Temperature 0 (the default) always picks the most likely voice
+export interface SamplingOptions {
+  temperature?: number;
+  seed?: number;
+}
+
+// Client -> worker; a request without a type harmonizes `note`
+export type HarmonizerRequest =
+  | ({ id: number; type?: 'Note'; note: number } & SamplingOptions)
+  | { id: number; type: 'Alternatives'; note: number; count: number }
+  | { id: number; type: 'Melody'; notes: number[] }
+  | { id: number; type: 'Reset' }
+  | { id: number; type: 'Snapshot' }
+  | { id: number; type: 'Restore'; state: HarmonizerStateSnapshot };
+
 export interface HarmonizerWorkerMessage {
   data: HarmonizerMessage;
 }
@@ -86,6 +112,89 @@ export const noteNameToMidi = (noteName: string): number | null => {
   return (parseInt(octave) + 1) * 12 + noteIndex;
 };
 
+// Key-aware pitch spelling, keys given as circle-of-fifths positions (-7 flats to 7 sharps)
+export interface SpelledPitch {
+  step: 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+  alter: number;
+  octave: number;
+}
+
+const NATURAL_STEPS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'] as const;
+const NATURAL_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+const FLAT_ORDER = ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+
+// Spellings of the seven diatonic notes in a major key signature
+const getKeySpellings = (keyFifths: number): Map<number, Omit<SpelledPitch, 'octave'>> => {
+  const spellings = new Map<number, Omit<SpelledPitch, 'octave'>>();
+  NATURAL_STEPS.forEach((step, i) => {
+    let alter = 0;
+    if (keyFifths > 0 && SHARP_ORDER.indexOf(step) < keyFifths) alter = 1;
+    if (keyFifths < 0 && FLAT_ORDER.indexOf(step) < -keyFifths) alter = -1;
+    spellings.set((NATURAL_PITCH_CLASSES[i] + alter + 12) % 12, { step, alter });
+  });
+  return spellings;
+};
+
+// Pitch class of the major tonic for a key signature
+const getMajorTonic = (keyFifths: number): number => (((keyFifths * 7) % 12) + 12) % 12;
+
+export const spellMidiNote = (midi: number, keyFifths: number = 0): SpelledPitch => {
+  const pitchClass = ((midi % 12) + 12) % 12;
+  const keySpellings = getKeySpellings(keyFifths);
+  let spelling = keySpellings.get(pitchClass);
+
+  // Raised 6th and 7th of the relative minor (e.g. C# in D minor), a semitone above the major
+  // key's 4th and 5th degrees: spelled on the same letter, whatever the key signature's direction
+  const fromTonic = (pitchClass - getMajorTonic(keyFifths) + 12) % 12;
+  if (!spelling && (fromTonic === 6 || fromTonic === 8)) {
+    const degree = keySpellings.get((pitchClass + 11) % 12)!;
+    spelling = { step: degree.step, alter: degree.alter + 1 };
+  }
+
+  if (!spelling) {
+    // Chromatic note: sharps in sharp keys, flats in flat keys
+    const sharpName = NOTE_NAMES[pitchClass];
+    if (keyFifths >= 0) {
+      spelling = { step: sharpName[0] as SpelledPitch['step'], alter: sharpName.length > 1 ? 1 : 0 };
+    } else {
+      const flatName = NOTE_NAMES[(pitchClass + 1) % 12];
+      spelling = sharpName.length > 1
+        ? { step: flatName[0] as SpelledPitch['step'], alter: -1 }
+        : { step: sharpName[0] as SpelledPitch['step'], alter: 0 };
+    }
+  }
+
+  return { ...spelling, octave: Math.floor((midi - spelling.alter) / 12) - 1 };
+};
+
+// Pick the key signature whose major or harmonic minor scale covers the most notes,
+// preferring fewer accidentals
+export const estimateKeyFifths = (midiNotes: number[]): number => {
+  const pitchClasses = midiNotes.map(midi => ((midi % 12) + 12) % 12);
+  let bestFifths = 0;
+  let bestScore = -1;
+
+  for (const fifths of [0, 1, -1, 2, -2, 3, -3, 4, -4, 5, -5, 6, -6]) {
+    const major = new Set(getKeySpellings(fifths).keys());
+    // The relative minor with its 7th raised to a leading tone
+    const leadingTone = (getMajorTonic(fifths) + 8) % 12;
+    const harmonicMinor = new Set(major);
+    harmonicMinor.delete((leadingTone + 11) % 12);
+    harmonicMinor.add(leadingTone);
+    const score = Math.max(
+      pitchClasses.filter(pitchClass => major.has(pitchClass)).length,
+      pitchClasses.filter(pitchClass => harmonicMinor.has(pitchClass)).length
+    );
+    if (score > bestScore) {
+      bestScore = score;
+      bestFifths = fifths;
+    }
+  }
+
+  return bestFifths;
+};
+
 // Voice range definitions (typical SATB ranges)
 export const VOICE_RANGES = {
   soprano: { min: 60, max: 84, name: 'Soprano' }, // C4 to C6
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { PerformanceChord, PerformanceFrame, PerformanceLog, isPerformanceLog } from './performance';
+
+const voice = (midiNote: number) => ({ midiNote, tie: false, probability: 1 });
+
+const makeLog = (): PerformanceLog => ({
+  version: 1,
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  handPreference: 'right',
+  duration: 100,
+  frames: [
+    {
+      time: 0,
+      controlHand: { x: 0.5, y: 0.5, detected: false, vowel: 'NONE' },
+      volumeHand: { y: 0.5, detected: false }
+    },
+    {
+      time: 33,
+      controlHand: { x: 0.4, y: 0.3, detected: true, vowel: 'A', pinch: 0.1, fingerCount: 5, roll: -0.2, z: 0.6 },
+      volumeHand: { y: 0.7, detected: true, x: 0.8, vowel: 'O', fingerCount: 1 }
+    }
+  ],
+  chords: [{ time: 40, chord: { soprano: voice(72), alto: voice(64), tenor: voice(60), bass: voice(48) } }]
+});
+
+// As a hand-edited file would arrive: plain JSON, changed in place. Edits that break the types
+// on purpose assign `never` or go through a Partial
+const edited = (edit: (log: PerformanceLog) => void): unknown => {
+  const log = JSON.parse(JSON.stringify(makeLog()));
+  edit(log);
+  return log;
+};
+
+describe('isPerformanceLog', () => {
+  it('accepts a recorded log that has been through JSON', () => {
+    expect(isPerformanceLog(edited(() => {}))).toBe(true);
+  });
+
+  it('rejects files without the log structure', () => {
+    expect(isPerformanceLog(null)).toBe(false);
+    expect(isPerformanceLog({ frames: [], chords: [] })).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.version = 2 as never; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { delete (log as Partial<PerformanceLog>).chords; }))).toBe(false);
+  });
+
+  it('rejects frames with missing or malformed hands', () => {
+    expect(isPerformanceLog(edited(log => { log.frames.push(null as never); }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { delete (log.frames[1] as Partial<PerformanceFrame>).volumeHand; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.frames[1].controlHand = {} as never; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.frames[0].controlHand.detected = undefined as never; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.frames[1].controlHand.y = '0.3' as never; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.frames[1].controlHand.vowel = 'Y' as never; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.frames[1].volumeHand.roll = null as never; }))).toBe(false);
+  });
+
+  it('rejects frames without a numeric time', () => {
+    expect(isPerformanceLog(edited(log => { delete (log.frames[0] as Partial<PerformanceFrame>).time; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { log.frames[1].time = '33' as never; }))).toBe(false);
+  });
+
+  it('rejects chords missing a voice', () => {
+    expect(isPerformanceLog(edited(log => { log.chords[0].chord.bass = undefined as never; }))).toBe(false);
+    expect(isPerformanceLog(edited(log => { (log.chords[0] as Partial<PerformanceChord>).time = undefined; }))).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+// Recorded performances: a timestamped log of hand data and emitted chords
+import { HarmonyChord } from './harmonizer';
+
+export type HandPreference = 'left' | 'right' | null;
+
+// Where the melody comes from; every source drives the same real-time harmonizer path
+export type MelodySource = 'hands' | 'midi' | 'mic';
+
+export type Vowel = 'A' | 'E' | 'I' | 'O' | 'U';
+
+export type HandVowel = Vowel | 'NONE';
+
+export interface HandPosition {
+  x: number; // 0-1, left to right
+  y: number; // 0-1, top to bottom (inverted for pitch)
+  detected: boolean;
+  vowel: HandVowel; // Vowel based on hand gesture
+  pinch?: number; // 0-1, thumb and index apart to touching
+  fingerCount?: number; // 0-5 extended fingers
+  roll?: number; // -1 to 1, hand tilt anticlockwise to clockwise as seen on screen
+  z?: number; // 0-1, far from to close to the camera
+}
+
+// Only the height drives volume by default; the rest can be routed in the gesture mapping
+export interface VolumeHand {
+  y: number; // 0-1, controls volume
+  detected: boolean;
+  x?: number;
+  z?: number;
+  vowel?: HandVowel;
+  pinch?: number;
+  fingerCount?: number; // 0-5 extended fingers
+  roll?: number;
+}
+
+export interface PerformanceFrame {
+  time: number; // ms since recording started
+  controlHand: HandPosition;
+  volumeHand: VolumeHand;
+}
+
+export interface PerformanceChord {
+  time: number; // ms since recording started
+  chord: HarmonyChord;
+}
+
+export interface PerformanceLog {
+  version: 1;
+  recordedAt: string; // ISO date
+  handPreference: HandPreference;
+  duration: number; // ms
+  frames: PerformanceFrame[];
+  chords: PerformanceChord[];
+}
+
+const HAND_VOWELS: HandVowel[] = ['A', 'E', 'I', 'O', 'U', 'NONE'];
+
+const isOptionalNumber = (value: unknown): boolean => value === undefined || Number.isFinite(value);
+
+// Playback reads every field of a frame, so a hand-edited or truncated file must hold up all the way down
+const isHandReading = (value: unknown, needsX: boolean): boolean => {
+  const hand = value as VolumeHand;
+  return !!hand && typeof hand === 'object' &&
+    typeof hand.detected === 'boolean' &&
+    Number.isFinite(hand.y) &&
+    (needsX ? Number.isFinite(hand.x) : isOptionalNumber(hand.x)) &&
+    (hand.vowel === undefined ? !needsX : HAND_VOWELS.includes(hand.vowel)) &&
+    isOptionalNumber(hand.z) &&
+    isOptionalNumber(hand.pinch) &&
+    isOptionalNumber(hand.fingerCount) &&
+    isOptionalNumber(hand.roll);
+};
+
+const isPerformanceFrame = (value: unknown): boolean => {
+  const frame = value as PerformanceFrame;
+  return !!frame &&
+    Number.isFinite(frame.time) &&
+    isHandReading(frame.controlHand, true) &&
+    isHandReading(frame.volumeHand, false);
+};
+
+const isPerformanceChord = (value: unknown): boolean => {
+  const entry = value as PerformanceChord;
+  return !!entry && !!entry.chord &&
+    Number.isFinite(entry.time) &&
+    (['soprano', 'alto', 'tenor', 'bass'] as const).every(part => Number.isFinite(entry.chord[part]?.midiNote));
+};
+
+export const isPerformanceLog = (value: unknown): value is PerformanceLog => {
+  const log = value as PerformanceLog;
+  return !!log && log.version === 1 &&
+    Array.isArray(log.frames) && log.frames.every(isPerformanceFrame) &&
+    Array.isArray(log.chords) && log.chords.every(isPerformanceChord);
+};
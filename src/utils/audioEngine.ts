@@ -1,29 +1,131 @@
 // Audio engine for vocal-like SATB synthesis
+import { HarmonyChord, HarmonySequence, VoiceType } from '../types/harmonizer';
+import { Vowel } from '../types/performance';
+import { getStepTimes, TimelineOptions } from './sequenceTimeline';
+import {
+  AutomatableEffectParam,
+  DEFAULT_EFFECTS,
+  EffectsSettings,
+  EffectsSettingsChanges,
+  MasterEffectsChain,
+  cloneEffectsSettings
+} from './effectsChain';
+import {
+  DEFAULT_INSTRUMENTS,
+  INSTRUMENT_PRESETS,
+  InstrumentId,
+  InstrumentSelection,
+  InstrumentVoice,
+  loadInstrumentSelection
+} from './instruments';
+
+const SATB_PARTS: VoiceType[] = ['soprano', 'alto', 'tenor', 'bass'];
+
+export interface VoiceEnvelope {
+  attack: number;  // Seconds to reach full level when a part starts singing
+  release: number; // Seconds to fade out when a part stops
+  glide: number;   // Seconds to slide from one note to the next
+}
+
+export const DEFAULT_ENVELOPE: VoiceEnvelope = { attack: 0.05, release: 0.1, glide: 0.06 };
+
+export interface ChannelStrip {
+  gain: number; // 0-1
+  pan: number;  // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+export type MixerSettings = Record<VoiceType, ChannelStrip>;
+
+// A little stereo spread, as a choir would stand
+export const DEFAULT_MIXER: MixerSettings = {
+  soprano: { gain: 1, pan: -0.3, mute: false, solo: false },
+  alto: { gain: 1, pan: -0.1, mute: false, solo: false },
+  tenor: { gain: 1, pan: 0.1, mute: false, solo: false },
+  bass: { gain: 1, pan: 0.3, mute: false, solo: false }
+};
+
+const cloneMixer = (mixer: MixerSettings): MixerSettings => ({
+  soprano: { ...mixer.soprano },
+  alto: { ...mixer.alto },
+  tenor: { ...mixer.tenor },
+  bass: { ...mixer.bass }
+});
+
+// Filter sweep amount (0-1) to cutoff, evenly spaced in pitch from 200 Hz to 20 kHz
+const sweepFrequency = (amount: number): number => 200 * Math.pow(100, amount);
+
 export class VocalAudioEngine {
-  private audioContext: AudioContext;
+  private audioContext: BaseAudioContext;
   private masterGain: GainNode;
-  private currentVoices: Map<string, VocalVoice> = new Map();
+  // Master gain -> sweep filter -> effects -> speakers (and any output stream)
+  private sweepFilter: BiquadFilterNode | null = null;
+  private filterSweep = 1;
+  private effects: MasterEffectsChain | null = null;
+  private effectsSettings: EffectsSettings = cloneEffectsSettings(DEFAULT_EFFECTS);
+  // Last stage before the outputs, so the synth can be silenced without touching the volume
+  private muteGain: GainNode;
+  private muted = false;
+  private stopListeners: Set<(when: number) => void> = new Set();
+  private currentVoices: Map<string, InstrumentVoice> = new Map();
+  // Vibrato per voice type, applied to live voices and to ones started later
+  private vibrato: Map<string, { depth: number; rate: number }> = new Map();
+  private vowel: Vowel = 'A';
+  // Every voice that has not finished yet, including ones scheduled in the future
+  private scheduledVoices: Set<InstrumentVoice> = new Set();
+  private ownsContext: boolean;
+  private streamDestination: MediaStreamAudioDestinationNode | null = null;
   private isInitialized = false;
+  private envelope: VoiceEnvelope = { ...DEFAULT_ENVELOPE };
+  private mixer: MixerSettings = cloneMixer(DEFAULT_MIXER);
+  private instruments: InstrumentSelection = { ...DEFAULT_INSTRUMENTS };
+  // Per-part channel strips between the voices and the master bus
+  private channels: Map<VoiceType, { gain: GainNode; panner: StereoPannerNode }> = new Map();
 
-  constructor() {
+  // Pass a context (e.g. an OfflineAudioContext) to render somewhere other than the speakers
+  constructor(context?: BaseAudioContext) {
     // AudioContext will be created lazily on first user interaction
-    this.audioContext = null!;
+    this.audioContext = context ?? null!;
     this.masterGain = null!;
+    this.muteGain = null!;
+    this.ownsContext = !context;
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     try {
-      this.audioContext = new (window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext!)();
+      if (this.ownsContext) {
+        this.audioContext = new (window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext!)();
+      }
       this.masterGain = this.audioContext.createGain();
-      this.masterGain.connect(this.audioContext.destination);
+      this.effects = new MasterEffectsChain(this.audioContext, this.effectsSettings);
+      this.sweepFilter = this.audioContext.createBiquadFilter();
+      this.sweepFilter.type = 'lowpass';
+      this.sweepFilter.Q.value = 2;
+      this.sweepFilter.frequency.value = sweepFrequency(this.filterSweep);
+      this.masterGain.connect(this.sweepFilter);
+      this.sweepFilter.connect(this.effects.input);
+      this.muteGain = this.audioContext.createGain();
+      this.muteGain.gain.setValueAtTime(this.muted ? 0 : 1, this.audioContext.currentTime);
+      this.effects.output.connect(this.muteGain);
+      this.muteGain.connect(this.audioContext.destination);
       this.masterGain.gain.setValueAtTime(0.5, this.audioContext.currentTime); // Default master volume
+
+      SATB_PARTS.forEach(part => {
+        const gain = this.audioContext.createGain();
+        const panner = this.audioContext.createStereoPanner();
+        gain.connect(panner);
+        panner.connect(this.masterGain);
+        this.channels.set(part, { gain, panner });
+      });
+      this.applyMixer(0);
       this.isInitialized = true;
       
       // Resume context if suspended (required by some browsers)
-      if (this.audioContext.state === 'suspended') {
-        await this.audioContext.resume();
+      if (this.ownsContext && this.audioContext.state === 'suspended') {
+        await (this.audioContext as AudioContext).resume();
       }
     } catch (error) {
       console.error('Failed to initialize audio context:', error);
@@ -31,31 +133,255 @@ export class VocalAudioEngine {
     }
   }
 
-  async playChord(soprano: number, alto: number, tenor: number, bass: number): Promise<void> {
+  // Move each part to its note in the chord. Parts that are already singing glide there,
+  // tied notes keep sounding, and only silent parts get a fresh attack.
+  // Parts on non-legato instruments strike every note that isn't tied.
+  // `when` is in context time; omit it to play immediately
+  async playHarmony(chord: HarmonyChord, when?: number): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
     }
+    await this.loadInstruments();
 
-    // Stop all current voices
-    this.stopAll();
+    const startTime = when ?? this.audioContext.currentTime;
+
+    SATB_PARTS.forEach(part => {
+      const { midiNote, tie } = chord[part];
+      const voice = this.currentVoices.get(part);
+      const { legato } = INSTRUMENT_PRESETS[this.instruments[part]];
+
+      if (!voice || (!legato && !tie)) {
+        voice?.stop(startTime, this.envelope.release);
+        const newVoice = this.createVoice(midiNote, part, startTime);
+        this.currentVoices.set(part, newVoice);
+        newVoice.start(startTime);
+      } else if (voice.midiNote !== midiNote) {
+        voice.glideTo(midiNote, startTime, this.envelope.glide);
+      } else if (!tie) {
+        // Same pitch sung again: a short dip instead of a restart
+        voice.rearticulate(startTime, this.envelope.attack);
+      }
+    });
+  }
+
+  // Every part sings its note anew, as if none were tied
+  async playChord(soprano: number, alto: number, tenor: number, bass: number, when?: number): Promise<void> {
+    const toNote = (midiNote: number) => ({ midiNote, tie: false, probability: 1 });
+    await this.playHarmony({
+      soprano: toNote(soprano),
+      alto: toNote(alto),
+      tenor: toNote(tenor),
+      bass: toNote(bass)
+    }, when);
+  }
+
+  // Morph every part's formants towards a vowel; new voices start on it too
+  setVowel(vowel: Vowel, morphTime = 0.08): void {
+    this.vowel = vowel;
+    if (!this.isInitialized) return;
+
+    const now = this.audioContext.currentTime;
+    this.currentVoices.forEach(voice => voice.setVowel?.(vowel, now, morphTime));
+  }
+
+  getVowel(): Vowel {
+    return this.vowel;
+  }
+
+  getInstruments(): InstrumentSelection {
+    return { ...this.instruments };
+  }
 
-    // Play all 4 voices simultaneously
-    this.currentVoices.set('soprano', new VocalVoice(this.audioContext, this.masterGain, soprano, 'soprano'));
-    this.currentVoices.set('alto', new VocalVoice(this.audioContext, this.masterGain, alto, 'alto'));
-    this.currentVoices.set('tenor', new VocalVoice(this.audioContext, this.masterGain, tenor, 'tenor'));
-    this.currentVoices.set('bass', new VocalVoice(this.audioContext, this.masterGain, bass, 'bass'));
+  // Takes effect from the part's next note; the note it is holding is released
+  setInstrument(part: VoiceType, instrument: InstrumentId): void {
+    if (this.instruments[part] === instrument) return;
 
-    // Start all voices
-    Array.from(this.currentVoices.values()).forEach(voice => {
-      voice.start();
+    this.instruments[part] = instrument;
+    const voice = this.currentVoices.get(part);
+    if (this.isInitialized && voice) {
+      voice.stop(this.audioContext.currentTime, this.envelope.release);
+      this.currentVoices.delete(part);
+    }
+    if (this.isInitialized) {
+      this.loadInstruments().catch(() => {});
+    }
+  }
+
+  setInstruments(selection: InstrumentSelection): void {
+    SATB_PARTS.forEach(part => this.setInstrument(part, selection[part]));
+  }
+
+  // Instruments that fail to load fall back to the choir so the music keeps going
+  private async loadInstruments(): Promise<void> {
+    await Promise.all(SATB_PARTS.map(async part => {
+      const preset = INSTRUMENT_PRESETS[this.instruments[part]];
+      if (!preset.load) return;
+
+      try {
+        await preset.load(this.audioContext);
+      } catch (error) {
+        console.error(`Failed to load ${preset.name}, using ${INSTRUMENT_PRESETS.vocal.name} instead:`, error);
+        if (this.instruments[part] === preset.id) {
+          this.instruments[part] = 'vocal';
+        }
+      }
+    }));
+  }
+
+  getMixer(): MixerSettings {
+    return cloneMixer(this.mixer);
+  }
+
+  setChannel(part: VoiceType, changes: Partial<ChannelStrip>): void {
+    this.mixer[part] = { ...this.mixer[part], ...changes };
+    this.applyMixer();
+  }
+
+  // Solo wins over everything else: while any part is soloed, only soloed parts sound
+  private applyMixer(transitionTime = 0.02): void {
+    if (!this.isInitialized) return;
+
+    const now = this.audioContext.currentTime;
+    const anySolo = SATB_PARTS.some(part => this.mixer[part].solo);
+
+    this.channels.forEach(({ gain, panner }, part) => {
+      const { gain: level, pan, mute, solo } = this.mixer[part];
+      const audible = anySolo ? solo : !mute;
+      const target = audible ? Math.max(0, Math.min(1, level)) : 0;
+
+      gain.gain.cancelScheduledValues(now);
+      panner.pan.cancelScheduledValues(now);
+      if (transitionTime > 0) {
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(target, now + transitionTime);
+        panner.pan.setValueAtTime(panner.pan.value, now);
+        panner.pan.linearRampToValueAtTime(Math.max(-1, Math.min(1, pan)), now + transitionTime);
+      } else {
+        gain.gain.setValueAtTime(target, now);
+        panner.pan.setValueAtTime(Math.max(-1, Math.min(1, pan)), now);
+      }
+    });
+  }
+
+  getEffectsSettings(): EffectsSettings {
+    return cloneEffectsSettings(this.effectsSettings);
+  }
+
+  // Bypass switches and parameter changes; parameters ramp over `rampTime` seconds
+  setEffects(changes: EffectsSettingsChanges, rampTime?: number): void {
+    (Object.keys(changes) as Array<keyof EffectsSettings>).forEach(effect => {
+      Object.assign(this.effectsSettings[effect], changes[effect]);
     });
+    this.effects?.update(changes, rampTime);
+  }
+
+  // Schedule an effect parameter at a context time, e.g. a reverb swell under a sequence
+  automateEffect(param: AutomatableEffectParam, value: number, when?: number, rampTime = 0): void {
+    if (!this.isInitialized || !this.effects) return;
+
+    this.effects.automate(param, value, when ?? this.audioContext.currentTime, rampTime);
+    this.effectsSettings = this.effects.getSettings();
+  }
+
+  getEnvelope(): VoiceEnvelope {
+    return { ...this.envelope };
   }
 
-  stopAll(): void {
-    Array.from(this.currentVoices.values()).forEach(voice => {
-      voice.stop();
+  // Attack and release apply from the next note; glide from the next transition
+  setEnvelope(changes: Partial<VoiceEnvelope>): void {
+    this.envelope = { ...this.envelope, ...changes };
+  }
+
+  // Glide a sounding voice to a new (possibly fractional) MIDI note without re-attacking it.
+  // Returns false if that voice isn't playing, so the caller can start a chord instead.
+  rampVoiceTo(voiceType: string, midiNote: number, glideTime = 0.05, when?: number): boolean {
+    const voice = this.currentVoices.get(voiceType);
+    if (!this.isInitialized || !voice) return false;
+
+    voice.glideTo(midiNote, when ?? this.audioContext.currentTime, glideTime);
+    return true;
+  }
+
+  // Depth in cents and rate in Hz; a depth of 0 turns vibrato off
+  setVibrato(voiceType: string, depth: number, rate: number): void {
+    this.vibrato.set(voiceType, { depth, rate });
+
+    const voice = this.currentVoices.get(voiceType);
+    if (this.isInitialized && voice) {
+      voice.setVibrato(depth, rate, this.audioContext.currentTime);
+    }
+  }
+
+  // Schedule a whole sequence, returning the context time at which it ends
+  async playSequence(sequence: HarmonySequence, when?: number, options: TimelineOptions = {}): Promise<number> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const startTime = when ?? this.audioContext.currentTime;
+    const steps = getStepTimes(sequence, options);
+    let endTime = startTime;
+
+    for (let i = 0; i < Math.min(steps.length, sequence.harmonies.length); i++) {
+      const stepStart = startTime + steps[i].start / 1000;
+      endTime = stepStart + steps[i].duration / 1000;
+      await this.playHarmony(sequence.harmonies[i], stepStart);
+    }
+
+    this.stopAll(endTime);
+    return endTime;
+  }
+
+  stopAll(when?: number): void {
+    const stopTime = when ?? (this.audioContext ? this.audioContext.currentTime : 0);
+
+    // Stopping now also silences anything scheduled later; a scheduled stop only ends what is playing
+    const voices = when === undefined ? this.scheduledVoices : new Set(this.currentVoices.values());
+    Array.from(voices).forEach(voice => {
+      voice.stop(stopTime, this.envelope.release);
     });
     this.currentVoices.clear();
+
+    this.stopListeners.forEach(listener => listener(stopTime));
+  }
+
+  // Called with the context time of every stopAll, e.g. to silence external MIDI gear.
+  // Returns a function that removes the listener.
+  onStop(listener: (when: number) => void): () => void {
+    this.stopListeners.add(listener);
+    return () => this.stopListeners.delete(listener);
+  }
+
+  // Silence the built-in synth while everything else (e.g. MIDI output) keeps running
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (!this.isInitialized) return;
+
+    const now = this.audioContext.currentTime;
+    this.muteGain.gain.cancelScheduledValues(now);
+    this.muteGain.gain.setTargetAtTime(muted ? 0 : 1, now, 0.01);
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  private createVoice(midiNote: number, voiceType: VoiceType, when: number): InstrumentVoice {
+    const destination = this.channels.get(voiceType)!.gain;
+    const voice = INSTRUMENT_PRESETS[this.instruments[voiceType]].createVoice(this.audioContext, destination, {
+      midiNote,
+      voiceType,
+      startTime: when,
+      attackTime: this.envelope.attack,
+      vowel: this.vowel
+    });
+    const vibrato = this.vibrato.get(voiceType);
+    if (vibrato) {
+      voice.setVibrato(vibrato.depth, vibrato.rate, when);
+    }
+    this.scheduledVoices.add(voice);
+    voice.onEnded = () => this.scheduledVoices.delete(voice);
+    return voice;
   }
 
   setMasterVolume(volume: number): void {
@@ -73,121 +399,64 @@ export class VocalAudioEngine {
     this.masterGain.gain.linearRampToValueAtTime(clampedVolume, now + transitionTime);
   }
 
-  getMasterVolume(): number {
-    if (!this.isInitialized || !this.masterGain) return 0.5;
-    return this.masterGain.gain.value;
+  // Low-pass sweep over the whole mix: 0 is dark and muffled, 1 fully open
+  setFilterSweep(amount: number): void {
+    this.filterSweep = Math.max(0, Math.min(1, amount));
+    if (!this.isInitialized || !this.sweepFilter) return;
+
+    const now = this.audioContext.currentTime;
+    this.sweepFilter.frequency.cancelScheduledValues(now);
+    this.sweepFilter.frequency.setTargetAtTime(sweepFrequency(this.filterSweep), now, 0.03);
   }
 
-  destroy(): void {
-    this.stopAll();
-    if (this.audioContext && this.audioContext.state !== 'closed') {
-      this.audioContext.close();
-    }
+  getFilterSweep(): number {
+    return this.filterSweep;
   }
-}
 
-class VocalVoice {
-  private audioContext: AudioContext;
-  private oscillator1: OscillatorNode;
-  private oscillator2: OscillatorNode;
-  private gainNode: GainNode;
-  private filterNode: BiquadFilterNode;
-  private frequency: number;
-  private voiceType: string;
-
-  constructor(audioContext: AudioContext, destination: AudioNode, midiNote: number, voiceType: string) {
-    this.audioContext = audioContext;
-    this.frequency = this.midiToFrequency(midiNote);
-    this.voiceType = voiceType;
-
-    // Create audio nodes
-    this.oscillator1 = audioContext.createOscillator();
-    this.oscillator2 = audioContext.createOscillator();
-    this.gainNode = audioContext.createGain();
-    this.filterNode = audioContext.createBiquadFilter();
-
-    // Configure oscillators for vocal-like sound
-    this.oscillator1.type = 'sawtooth';
-    this.oscillator2.type = 'triangle';
-    
-    // Set frequencies with slight detuning for richness
-    this.oscillator1.frequency.setValueAtTime(this.frequency, audioContext.currentTime);
-    this.oscillator2.frequency.setValueAtTime(this.frequency * 1.002, audioContext.currentTime);
-
-    // Configure filter for vocal formants
-    this.setupVocalFilter(voiceType);
-
-    // Configure gain envelope
-    this.setupGainEnvelope();
-
-    // Connect audio graph
-    this.oscillator1.connect(this.filterNode);
-    this.oscillator2.connect(this.filterNode);
-    this.filterNode.connect(this.gainNode);
-    this.gainNode.connect(destination);
-  }
-
-  private midiToFrequency(midiNote: number): number {
-    return 440 * Math.pow(2, (midiNote - 69) / 12);
-  }
-
-  private setupVocalFilter(voiceType: string): void {
-    // Set different formant frequencies for different voice types
-    let filterFreq: number;
-    const filterQ = 2.0;
-
-    switch (voiceType) {
-      case 'soprano':
-        filterFreq = 1200; // Higher formant for soprano
-        break;
-      case 'alto':
-        filterFreq = 900; // Medium-high formant for alto
-        break;
-      case 'tenor':
-        filterFreq = 650; // Medium formant for tenor
-        break;
-      case 'bass':
-        filterFreq = 400; // Lower formant for bass
-        break;
-      default:
-        filterFreq = 800;
+  // Master bus as a MediaStream, e.g. for MediaRecorder (real-time contexts only)
+  async getOutputStream(): Promise<MediaStream> {
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    this.filterNode.type = 'bandpass';
-    this.filterNode.frequency.setValueAtTime(filterFreq, this.audioContext.currentTime);
-    this.filterNode.Q.setValueAtTime(filterQ, this.audioContext.currentTime);
-  }
+    if (!this.ownsContext) {
+      throw new Error('Output streams are only available on a live audio context');
+    }
 
-  private setupGainEnvelope(): void {
-    const now = this.audioContext.currentTime;
-    const attackTime = 0.05; // Quick attack
-    const sustainLevel = 0.25; // Equal volume for all voices
+    if (!this.streamDestination) {
+      this.streamDestination = (this.audioContext as AudioContext).createMediaStreamDestination();
+      this.muteGain.connect(this.streamDestination);
+    }
 
-    // Set up ADSR envelope
-    this.gainNode.gain.setValueAtTime(0, now);
-    this.gainNode.gain.linearRampToValueAtTime(sustainLevel, now + attackTime);
+    return this.streamDestination.stream;
   }
 
-  start(): void {
-    const now = this.audioContext.currentTime;
-    this.oscillator1.start(now);
-    this.oscillator2.start(now);
+  getMasterVolume(): number {
+    if (!this.isInitialized || !this.masterGain) return 0.5;
+    return this.masterGain.gain.value;
   }
 
-  stop(): void {
-    const now = this.audioContext.currentTime;
-    const releaseTime = 0.1;
-
-    // Fade out
-    this.gainNode.gain.cancelScheduledValues(now);
-    this.gainNode.gain.setValueAtTime(this.gainNode.gain.value, now);
-    this.gainNode.gain.linearRampToValueAtTime(0, now + releaseTime);
+  destroy(): void {
+    this.stopAll();
+    if (this.ownsContext && this.audioContext && this.audioContext.state !== 'closed') {
+      (this.audioContext as AudioContext).close();
+    }
 
-    // Stop oscillators after fade out
-    this.oscillator1.stop(now + releaseTime);
-    this.oscillator2.stop(now + releaseTime);
+    // The shared engine outlives its screens; start over with a fresh context on next use
+    if (this.ownsContext) {
+      this.audioContext = null!;
+      this.masterGain = null!;
+      this.muteGain = null!;
+      this.effects = null;
+      this.sweepFilter = null;
+      this.streamDestination = null;
+      this.channels.clear();
+      this.scheduledVoices.clear();
+      this.isInitialized = false;
+    }
   }
 }
 
-// Singleton instance
+// Singleton instance, singing with the instruments chosen last time
 export const audioEngine = new VocalAudioEngine();
+audioEngine.setInstruments(loadInstrumentSelection());
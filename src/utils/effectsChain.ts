@@ -0,0 +1,290 @@
+// Master bus processing: 3-band EQ -> compressor -> convolution reverb -> limiter
+
+export interface EqSettings {
+  bypass: boolean;
+  low: number;  // dB, shelf below 200Hz
+  mid: number;  // dB, peak at 1kHz
+  high: number; // dB, shelf above 4kHz
+}
+
+export interface CompressorSettings {
+  bypass: boolean;
+  threshold: number; // dB
+  ratio: number;
+  knee: number;      // dB
+  attack: number;    // Seconds
+  release: number;   // Seconds
+}
+
+export interface ReverbSettings {
+  bypass: boolean;
+  mix: number;   // 0 (dry) to 1 (wet)
+  decay: number; // Seconds; changing it generates a new impulse response
+}
+
+export interface LimiterSettings {
+  bypass: boolean;
+  ceiling: number; // dB
+}
+
+export interface EffectsSettings {
+  eq: EqSettings;
+  compressor: CompressorSettings;
+  reverb: ReverbSettings;
+  limiter: LimiterSettings;
+}
+
+export type EffectsSettingsChanges = { [K in keyof EffectsSettings]?: Partial<EffectsSettings[K]> };
+
+export const DEFAULT_EFFECTS: EffectsSettings = {
+  eq: { bypass: false, low: 0, mid: 0, high: 0 },
+  compressor: { bypass: false, threshold: -18, ratio: 3, knee: 6, attack: 0.01, release: 0.25 },
+  reverb: { bypass: false, mix: 0.2, decay: 2.5 },
+  limiter: { bypass: false, ceiling: -1 }
+};
+
+// Parameters backed by an AudioParam, so they can be ramped and scheduled
+export type AutomatableEffectParam =
+  | 'eq.low'
+  | 'eq.mid'
+  | 'eq.high'
+  | 'compressor.threshold'
+  | 'compressor.ratio'
+  | 'compressor.knee'
+  | 'compressor.attack'
+  | 'compressor.release'
+  | 'reverb.mix'
+  | 'limiter.ceiling';
+
+const BYPASS_FADE = 0.02; // Seconds to crossfade when an effect is switched in or out
+
+export const cloneEffectsSettings = (settings: EffectsSettings): EffectsSettings => ({
+  eq: { ...settings.eq },
+  compressor: { ...settings.compressor },
+  reverb: { ...settings.reverb },
+  limiter: { ...settings.limiter }
+});
+
+// Deterministic PRNG so the same decay always gives the same room
+const mulberry32 = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Stereo exponentially decaying noise, reaching -60dB after `decay` seconds
+export const generateImpulseResponse = (context: BaseAudioContext, decay: number, seed = 1): AudioBuffer => {
+  const duration = Math.max(0.1, decay);
+  const length = Math.ceil(duration * context.sampleRate);
+  const buffer = context.createBuffer(2, length, context.sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const random = mulberry32(seed + channel);
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      const time = i / context.sampleRate;
+      data[i] = (random() * 2 - 1) * Math.pow(10, (-3 * time) / duration);
+    }
+  }
+
+  return buffer;
+};
+
+// An effect with a dry path alongside it, crossfaded to bypass
+class EffectSlot {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private wet: GainNode;
+  private dry: GainNode;
+  private context: BaseAudioContext;
+
+  constructor(context: BaseAudioContext, effectIn: AudioNode, effectOut: AudioNode) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.wet = context.createGain();
+    this.dry = context.createGain();
+
+    this.input.connect(effectIn);
+    effectOut.connect(this.wet);
+    this.wet.connect(this.output);
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+  }
+
+  setBypass(bypass: boolean, when = this.context.currentTime, fade = BYPASS_FADE): void {
+    const fadeTo = (gain: AudioParam, target: number) => {
+      gain.cancelScheduledValues(when);
+      if (fade > 0) {
+        gain.setTargetAtTime(target, when, fade / 3);
+      } else {
+        gain.setValueAtTime(target, when);
+      }
+    };
+
+    fadeTo(this.wet.gain, bypass ? 0 : 1);
+    fadeTo(this.dry.gain, bypass ? 1 : 0);
+  }
+}
+
+export class MasterEffectsChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private context: BaseAudioContext;
+  private settings: EffectsSettings;
+  private lowShelf: BiquadFilterNode;
+  private midPeak: BiquadFilterNode;
+  private highShelf: BiquadFilterNode;
+  private compressor: DynamicsCompressorNode;
+  private convolver: ConvolverNode;
+  private reverbWet: GainNode;
+  private reverbDry: GainNode;
+  private limiter: DynamicsCompressorNode;
+  private slots: Record<keyof EffectsSettings, EffectSlot>;
+
+  constructor(context: BaseAudioContext, settings: EffectsSettings = DEFAULT_EFFECTS) {
+    this.context = context;
+    this.settings = cloneEffectsSettings(settings);
+
+    // EQ
+    this.lowShelf = context.createBiquadFilter();
+    this.midPeak = context.createBiquadFilter();
+    this.highShelf = context.createBiquadFilter();
+    this.lowShelf.type = 'lowshelf';
+    this.lowShelf.frequency.value = 200;
+    this.midPeak.type = 'peaking';
+    this.midPeak.frequency.value = 1000;
+    this.midPeak.Q.value = 0.7;
+    this.highShelf.type = 'highshelf';
+    this.highShelf.frequency.value = 4000;
+    this.lowShelf.connect(this.midPeak);
+    this.midPeak.connect(this.highShelf);
+
+    // Compressor
+    this.compressor = context.createDynamicsCompressor();
+
+    // Reverb, with its own wet/dry mix inside the slot
+    this.convolver = context.createConvolver();
+    this.reverbWet = context.createGain();
+    this.reverbDry = context.createGain();
+    const reverbIn = context.createGain();
+    const reverbOut = context.createGain();
+    reverbIn.connect(this.convolver);
+    this.convolver.connect(this.reverbWet);
+    this.reverbWet.connect(reverbOut);
+    reverbIn.connect(this.reverbDry);
+    this.reverbDry.connect(reverbOut);
+
+    // Limiter: fast, hard-kneed compression just below full scale
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.1;
+
+    this.slots = {
+      eq: new EffectSlot(context, this.lowShelf, this.highShelf),
+      compressor: new EffectSlot(context, this.compressor, this.compressor),
+      reverb: new EffectSlot(context, reverbIn, reverbOut),
+      limiter: new EffectSlot(context, this.limiter, this.limiter)
+    };
+
+    this.input = this.slots.eq.input;
+    this.slots.eq.output.connect(this.slots.compressor.input);
+    this.slots.compressor.output.connect(this.slots.reverb.input);
+    this.slots.reverb.output.connect(this.slots.limiter.input);
+    this.output = this.slots.limiter.output;
+
+    this.convolver.buffer = generateImpulseResponse(context, this.settings.reverb.decay);
+    this.applyAll();
+  }
+
+  getSettings(): EffectsSettings {
+    return cloneEffectsSettings(this.settings);
+  }
+
+  // Apply new settings, ramping automatable parameters over `rampTime` seconds
+  update(changes: EffectsSettingsChanges, rampTime = 0.05): void {
+    const now = this.context.currentTime;
+
+    (Object.keys(changes) as Array<keyof EffectsSettings>).forEach(effect => {
+      const effectChanges = changes[effect] ?? {};
+      Object.assign(this.settings[effect], effectChanges);
+
+      Object.entries(effectChanges).forEach(([name, value]) => {
+        if (name === 'bypass') {
+          this.slots[effect].setBypass(value as boolean, now);
+        } else if (effect === 'reverb' && name === 'decay') {
+          this.convolver.buffer = generateImpulseResponse(this.context, value as number);
+        } else {
+          this.automate(`${effect}.${name}` as AutomatableEffectParam, value as number, now, rampTime);
+        }
+      });
+    });
+  }
+
+  // Schedule a parameter change at a context time, ramping over `rampTime` seconds
+  automate(param: AutomatableEffectParam, value: number, when = this.context.currentTime, rampTime = 0): void {
+    const [effect, name] = param.split('.') as [keyof EffectsSettings, string];
+    (this.settings[effect] as unknown as Record<string, number>)[name] = value;
+
+    this.getTargets(param, value).forEach(([audioParam, target]) => {
+      audioParam.cancelScheduledValues(when);
+      if (rampTime > 0) {
+        audioParam.setValueAtTime(audioParam.value, when);
+        audioParam.linearRampToValueAtTime(target, when + rampTime);
+      } else {
+        audioParam.setValueAtTime(target, when);
+      }
+    });
+  }
+
+  // The AudioParams behind a setting, with the value each should take
+  private getTargets(param: AutomatableEffectParam, value: number): Array<[AudioParam, number]> {
+    switch (param) {
+      case 'eq.low': return [[this.lowShelf.gain, value]];
+      case 'eq.mid': return [[this.midPeak.gain, value]];
+      case 'eq.high': return [[this.highShelf.gain, value]];
+      case 'compressor.threshold': return [[this.compressor.threshold, value]];
+      case 'compressor.ratio': return [[this.compressor.ratio, value]];
+      case 'compressor.knee': return [[this.compressor.knee, value]];
+      case 'compressor.attack': return [[this.compressor.attack, value]];
+      case 'compressor.release': return [[this.compressor.release, value]];
+      case 'reverb.mix': {
+        // Equal-power crossfade
+        const mix = Math.max(0, Math.min(1, value));
+        return [
+          [this.reverbWet.gain, Math.sin(mix * Math.PI / 2)],
+          [this.reverbDry.gain, Math.cos(mix * Math.PI / 2)]
+        ];
+      }
+      case 'limiter.ceiling': return [[this.limiter.threshold, value]];
+    }
+  }
+
+  private applyAll(): void {
+    const now = this.context.currentTime;
+    const { eq, compressor, reverb, limiter } = this.settings;
+
+    (Object.keys(this.slots) as Array<keyof EffectsSettings>).forEach(effect => {
+      this.slots[effect].setBypass(this.settings[effect].bypass, now, 0);
+    });
+
+    this.automate('eq.low', eq.low, now);
+    this.automate('eq.mid', eq.mid, now);
+    this.automate('eq.high', eq.high, now);
+    this.automate('compressor.threshold', compressor.threshold, now);
+    this.automate('compressor.ratio', compressor.ratio, now);
+    this.automate('compressor.knee', compressor.knee, now);
+    this.automate('compressor.attack', compressor.attack, now);
+    this.automate('compressor.release', compressor.release, now);
+    this.automate('reverb.mix', reverb.mix, now);
+    this.automate('limiter.ceiling', limiter.ceiling, now);
+  }
+
+  disconnect(): void {
+    this.output.disconnect();
+  }
+}
@@ -0,0 +1,69 @@
+// Formant tables for sung vowels, after the Csound manual's vowel formant appendix
+import { VoiceType } from '../types/harmonizer';
+import { Vowel } from '../types/performance';
+
+export interface Formant {
+  frequency: number; // Hz
+  gain: number;      // dB relative to F1
+  bandwidth: number; // Hz
+}
+
+// F1-F3 for each vowel
+export type VowelFormants = [Formant, Formant, Formant];
+
+const formants = (
+  frequencies: [number, number, number],
+  gains: [number, number, number],
+  bandwidths: [number, number, number]
+): VowelFormants => [0, 1, 2].map(i => ({
+  frequency: frequencies[i],
+  gain: gains[i],
+  bandwidth: bandwidths[i]
+})) as VowelFormants;
+
+export const VOWELS: Vowel[] = ['A', 'E', 'I', 'O', 'U'];
+
+export const FORMANT_TABLES: Record<VoiceType, Record<Vowel, VowelFormants>> = {
+  soprano: {
+    A: formants([800, 1150, 2900], [0, -6, -32], [80, 90, 120]),
+    E: formants([350, 2000, 2800], [0, -20, -15], [60, 100, 120]),
+    I: formants([270, 2140, 2950], [0, -12, -26], [60, 90, 100]),
+    O: formants([450, 800, 2830], [0, -11, -22], [70, 80, 100]),
+    U: formants([325, 700, 2700], [0, -16, -35], [50, 60, 170])
+  },
+  alto: {
+    A: formants([800, 1150, 2800], [0, -4, -20], [80, 90, 120]),
+    E: formants([400, 1600, 2700], [0, -24, -30], [60, 80, 120]),
+    I: formants([350, 1700, 2700], [0, -20, -30], [50, 100, 120]),
+    O: formants([450, 800, 2830], [0, -9, -16], [70, 80, 100]),
+    U: formants([325, 700, 2530], [0, -12, -30], [50, 60, 170])
+  },
+  tenor: {
+    A: formants([650, 1080, 2650], [0, -6, -7], [80, 90, 120]),
+    E: formants([400, 1700, 2600], [0, -14, -12], [70, 80, 100]),
+    I: formants([290, 1870, 2800], [0, -15, -18], [40, 90, 100]),
+    O: formants([400, 800, 2600], [0, -10, -12], [40, 80, 100]),
+    U: formants([350, 600, 2700], [0, -20, -17], [40, 60, 100])
+  },
+  bass: {
+    A: formants([600, 1040, 2250], [0, -7, -9], [60, 70, 110]),
+    E: formants([400, 1620, 2400], [0, -12, -9], [40, 80, 100]),
+    I: formants([250, 1750, 2600], [0, -30, -16], [60, 90, 100]),
+    O: formants([400, 750, 2400], [0, -11, -21], [40, 80, 100]),
+    U: formants([350, 600, 2400], [0, -20, -32], [40, 80, 100])
+  }
+};
+
+export const VOWEL_LABELS: Record<Vowel, string> = {
+  A: 'Ah',
+  E: 'Eh',
+  I: 'Ee',
+  O: 'Oh',
+  U: 'Oo'
+};
+
+export const getVowelFormants = (voiceType: VoiceType, vowel: Vowel): VowelFormants => {
+  return FORMANT_TABLES[voiceType][vowel];
+};
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { HandPosition, VolumeHand } from '../types/performance';
+import { DEFAULT_ROUTES, GestureRoute, applyRoute, mapGestures } from './gestureMapping';
+
+const controlHand = (changes: Partial<HandPosition> = {}): HandPosition =>
+  ({ x: 0.5, y: 0.5, detected: true, vowel: 'A', pinch: 0, fingerCount: 5, roll: 0, z: 0.5, ...changes });
+
+const volumeHand = (changes: Partial<VolumeHand> = {}): VolumeHand =>
+  ({ y: 0.5, detected: true, fingerCount: 0, roll: 0, ...changes });
+
+const mapDefaults = (control: Partial<HandPosition> = {}, volume: Partial<VolumeHand> = {}) =>
+  mapGestures(DEFAULT_ROUTES, { control: controlHand(control), volume: volumeHand(volume) });
+
+describe('DEFAULT_ROUTES', () => {
+  it('shifts an octave up for one finger and down for two, and leaves other counts alone', () => {
+    expect([0, 1, 2, 3, 4, 5].map(fingerCount => mapDefaults({}, { fingerCount }).octave)).toEqual([0, 1, -1, 0, 0, 0]);
+    expect(mapDefaults({}, { fingerCount: 1, detected: false }).octave).toBe(0);
+  });
+
+  it('closes the filter sweep the same way for a tilt either side of the dead zone', () => {
+    // The hard-wired sweep the routes replace
+    const expected = (roll: number) => 1 - Math.max(0, Math.abs(roll) - 0.15) / (1 - 0.15);
+
+    [-1, -0.6, -0.15, 0, 0.1, 0.15, 0.5, 1].forEach(roll => {
+      expect(mapDefaults({ roll }).filterSweep).toBeCloseTo(expected(roll));
+    });
+  });
+});
+
+describe('applyRoute', () => {
+  const route: GestureRoute = { hand: 'control', feature: 'roll', target: 'volume', min: 0, max: 1, curve: 'linear', invert: false };
+
+  it('reads the magnitude when absolute is set', () => {
+    expect(applyRoute(route, -0.4)).toBe(0);
+    expect(applyRoute({ ...route, absolute: true }, -0.4)).toBeCloseTo(0.4);
+  });
+
+  it('picks the nearest lookup entry across the range', () => {
+    const lookup: GestureRoute = { ...route, curve: 'lookup', table: [0, 1, 0.25] };
+
+    expect([0, 0.2, 0.3, 0.7, 0.8, 1].map(value => applyRoute(lookup, value))).toEqual([0, 0, 1, 1, 0.25, 0.25]);
+  });
+
+  it('falls back to linear for an empty lookup table', () => {
+    expect(applyRoute({ ...route, curve: 'lookup', table: [] }, 0.3)).toBeCloseTo(0.3);
+  });
+});
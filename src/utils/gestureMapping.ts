@@ -0,0 +1,217 @@
+// Routes tracked hand features to engine parameters. Each route reads one feature of one hand,
+// scales its range onto 0-1, optionally inverts it and shapes it with a curve or a lookup table
+import { HandPosition, Vowel, VolumeHand } from '../types/performance';
+import { VOWELS } from './formants';
+
+export type GestureHand = 'control' | 'volume';
+
+export type GestureFeature = 'x' | 'y' | 'z' | 'pinch' | 'roll' | 'vowel' | 'fingerCount';
+
+export type MappingTarget = 'pitch' | 'gate' | 'sustain' | 'volume' | 'octave' | 'filterSweep' | 'voicing' | 'vowel';
+
+export type MappingCurve = 'linear' | 'exponential' | 'logarithmic' | 'sCurve' | 'lookup';
+
+export interface GestureRoute {
+  hand: GestureHand;
+  feature: GestureFeature;
+  target: MappingTarget;
+  min: number; // Feature value that maps to 0...
+  max: number; // ...and to 1; values outside are clamped
+  curve: MappingCurve;
+  invert: boolean;
+  absolute?: boolean; // Use the feature's magnitude, so e.g. a tilt either way counts the same
+  table?: number[];   // Outputs (0-1) of the lookup curve, spread evenly across the range
+}
+
+export interface MappingPreset {
+  name: string;
+  routes: GestureRoute[];
+}
+
+// What the routes resolve to, with targets that have no reading at their resting values
+export interface MappedControls {
+  pitch: number | null;  // 0-1 up the scale; null stops the melody
+  gate: boolean;         // Open unless a gate route is present and reads below half
+  sustain: boolean;      // Holds the current note
+  volume: number;        // 0-1
+  octave: number;        // -1, 0 or 1; from a 0-1 reading of 0, 0.5 or 1
+  filterSweep: number;   // 0 closed to 1 open
+  voicing: number | null; // 0-1 across the ranked voicings
+  vowel: Vowel | null;
+}
+
+export const GESTURE_HANDS: GestureHand[] = ['control', 'volume'];
+
+// Native units of each feature, which route ranges are given in
+export const GESTURE_FEATURES: Record<GestureFeature, { label: string; min: number; max: number; step: number }> = {
+  x: { label: 'Left–right', min: 0, max: 1, step: 0.05 },
+  y: { label: 'Top–bottom', min: 0, max: 1, step: 0.05 },
+  z: { label: 'Distance', min: 0, max: 1, step: 0.05 },
+  pinch: { label: 'Pinch', min: 0, max: 1, step: 0.05 },
+  roll: { label: 'Roll', min: -1, max: 1, step: 0.05 },
+  vowel: { label: 'Vowel shape', min: 0, max: 5, step: 1 }, // 0 unclear, then A E I O U
+  fingerCount: { label: 'Fingers', min: 0, max: 5, step: 1 }
+};
+
+export const MAPPING_TARGETS: Record<MappingTarget, string> = {
+  pitch: 'Pitch',
+  gate: 'Gate',
+  sustain: 'Sustain',
+  volume: 'Volume',
+  octave: 'Octave',
+  filterSweep: 'Filter sweep',
+  voicing: 'Voicing',
+  vowel: 'Vowel'
+};
+
+export const MAPPING_CURVES: Record<MappingCurve, string> = {
+  linear: 'Linear',
+  exponential: 'Exponential',
+  logarithmic: 'Logarithmic',
+  sCurve: 'S-curve',
+  lookup: 'Lookup table'
+};
+
+// Switch-like targets (gate, sustain) turn on at half way
+const SWITCH_POINT = 0.5;
+
+// The hard-wired controls from before routes existed
+export const DEFAULT_ROUTES: GestureRoute[] = [
+  { hand: 'control', feature: 'y', target: 'pitch', min: 0, max: 1, curve: 'linear', invert: true },
+  // Any clear vowel shape opens the gate
+  { hand: 'control', feature: 'vowel', target: 'gate', min: 0, max: 1, curve: 'linear', invert: false },
+  { hand: 'control', feature: 'vowel', target: 'vowel', min: 0, max: 5, curve: 'linear', invert: false },
+  { hand: 'control', feature: 'x', target: 'voicing', min: 0, max: 1, curve: 'linear', invert: false },
+  // Sustains from a pinch of 0.8
+  { hand: 'control', feature: 'pinch', target: 'sustain', min: 0.6, max: 1, curve: 'linear', invert: false },
+  // Open while upright; tilting either way past the dead zone closes it
+  { hand: 'control', feature: 'roll', target: 'filterSweep', min: 0.15, max: 1, curve: 'linear', invert: true, absolute: true },
+  { hand: 'volume', feature: 'y', target: 'volume', min: 0, max: 1, curve: 'linear', invert: true },
+  // One finger up shifts an octave up, two an octave down; any other count leaves it
+  {
+    hand: 'volume',
+    feature: 'fingerCount',
+    target: 'octave',
+    min: 0,
+    max: 5,
+    curve: 'lookup',
+    invert: false,
+    table: [0.5, 1, 0, 0.5, 0.5, 0.5]
+  }
+];
+
+export const DEFAULT_PRESET: MappingPreset = { name: 'Default', routes: DEFAULT_ROUTES };
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const shapeCurve = (value: number, curve: MappingCurve, table: number[] = []): number => {
+  switch (curve) {
+    case 'lookup': return table.length > 0 ? table[Math.round(value * (table.length - 1))] : value;
+    case 'exponential': return value * value;
+    case 'logarithmic': return Math.sqrt(value);
+    case 'sCurve': return value * value * (3 - 2 * value);
+    default: return value;
+  }
+};
+
+// A feature's value in its native units, or null when the hand is missing or the feature isn't tracked
+export const readFeature = (hand: HandPosition | VolumeHand, feature: GestureFeature): number | null => {
+  if (!hand.detected) return null;
+
+  switch (feature) {
+    case 'x':
+      // The view is mirrored, so the left edge of the screen is x = 1
+      return hand.x === undefined ? null : 1 - hand.x;
+    case 'vowel':
+      if (hand.vowel === undefined) return null;
+      return hand.vowel === 'NONE' ? 0 : VOWELS.indexOf(hand.vowel) + 1;
+    default:
+      return hand[feature] ?? null;
+  }
+};
+
+// A lookup table with one entry per step of the route's range, rising evenly; continuous features get five
+export const defaultLookupTable = (route: GestureRoute): number[] => {
+  const { step } = GESTURE_FEATURES[route.feature];
+  const count = step === 1 ? Math.max(2, Math.round(Math.abs(route.max - route.min)) + 1) : 5;
+  return Array.from({ length: count }, (_, i) => i / (count - 1));
+};
+
+export const applyRoute = (route: GestureRoute, value: number): number => {
+  const input = route.absolute ? Math.abs(value) : value;
+  const span = route.max - route.min;
+  const position = span === 0 ? (input >= route.max ? 1 : 0) : clamp01((input - route.min) / span);
+  return shapeCurve(route.invert ? 1 - position : position, route.curve, route.table);
+};
+
+// When several routes drive one target, the first with a reading wins
+export const mapGestures = (
+  routes: GestureRoute[],
+  hands: Record<GestureHand, HandPosition | VolumeHand>
+): MappedControls => {
+  const readings: Partial<Record<MappingTarget, number | null>> = {};
+  routes.forEach(route => {
+    if (readings[route.target] != null) return;
+    const value = readFeature(hands[route.hand], route.feature);
+    readings[route.target] = value === null ? null : applyRoute(route, value);
+  });
+
+  const { pitch, gate, sustain, volume, octave, filterSweep, voicing, vowel } = readings;
+  const vowelIndex = vowel == null ? 0 : Math.round(vowel * VOWELS.length);
+
+  return {
+    pitch: pitch ?? null,
+    gate: gate === undefined || (gate !== null && gate >= SWITCH_POINT),
+    sustain: sustain != null && sustain >= SWITCH_POINT,
+    volume: volume ?? 0.5,
+    octave: Math.round((octave ?? 0.5) * 2) - 1,
+    filterSweep: filterSweep ?? 1,
+    voicing: voicing ?? null,
+    vowel: vowelIndex > 0 ? VOWELS[vowelIndex - 1] : null
+  };
+};
+
+const isGestureRoute = (value: unknown): value is GestureRoute => {
+  const route = value as GestureRoute;
+  return !!route &&
+    GESTURE_HANDS.includes(route.hand) &&
+    Object.keys(GESTURE_FEATURES).includes(route.feature) &&
+    Object.keys(MAPPING_TARGETS).includes(route.target) &&
+    Object.keys(MAPPING_CURVES).includes(route.curve) &&
+    Number.isFinite(route.min) &&
+    Number.isFinite(route.max) &&
+    typeof route.invert === 'boolean' &&
+    (route.absolute === undefined || typeof route.absolute === 'boolean') &&
+    (route.table === undefined || (Array.isArray(route.table) && route.table.every(Number.isFinite)));
+};
+
+export const isMappingPreset = (value: unknown): value is MappingPreset => {
+  const preset = value as MappingPreset;
+  return !!preset &&
+    typeof preset.name === 'string' &&
+    Array.isArray(preset.routes) &&
+    preset.routes.every(isGestureRoute);
+};
+
+const MAPPING_PRESET_STORAGE_KEY = 'gesture-mapping-presets';
+
+// Saved presets, skipping any that no longer parse
+export const loadMappingPresets = (): MappingPreset[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved: unknown = JSON.parse(window.localStorage.getItem(MAPPING_PRESET_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isMappingPreset) : [];
+  } catch (error) {
+    console.warn('Ignoring saved gesture mappings:', error);
+    return [];
+  }
+};
+
+export const saveMappingPresets = (presets: MappingPreset[]): void => {
+  try {
+    window.localStorage.setItem(MAPPING_PRESET_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('Could not save gesture mappings:', error);
+  }
+};
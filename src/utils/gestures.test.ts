@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmark, TrackedHand } from '../types/handTracking';
+import { classifyHand } from './gestures';
+
+type Vector = [number, number, number];
+
+// Knuckles in the hand's own frame, in metres: x across the palm, y from the wrist to the fingers,
+// z out of the palm
+const KNUCKLES: Vector[] = [[0.025, 0.09, 0], [0, 0.095, 0], [-0.02, 0.09, 0], [-0.04, 0.08, 0]];
+const SEGMENTS = [0.04, 0.025, 0.02]; // Knuckle to middle joint, to end joint, to tip
+const CURL = Math.PI * 0.4; // Turn at each joint of a curled finger
+
+const add = (a: Vector, b: Vector, scale = 1): Vector => [a[0] + b[0] * scale, a[1] + b[1] * scale, a[2] + b[2] * scale];
+
+// Joints past the knuckle, straight on from the wrist or curling in towards the palm
+const finger = (knuckle: Vector, extended: boolean): Vector[] => {
+  const length = Math.hypot(...knuckle);
+  const along: Vector = [knuckle[0] / length, knuckle[1] / length, 0];
+  const points: Vector[] = [];
+  let joint = knuckle;
+  SEGMENTS.forEach((segment, i) => {
+    const turn = extended ? 0 : CURL * (i + 1);
+    const direction: Vector = [along[0] * Math.cos(turn), along[1] * Math.cos(turn), Math.sin(turn)];
+    joint = add(joint, direction, segment);
+    points.push(joint);
+  });
+  return points;
+};
+
+const EXTENDED_THUMB: Vector[] = [[0.02, 0.02, 0], [0.04, 0.04, 0], [0.055, 0.06, 0], [0.065, 0.08, 0]];
+const FOLDED_THUMB: Vector[] = [[0.02, 0.02, 0], [0.04, 0.04, 0], [0.035, 0.055, 0], [0.005, 0.06, 0]];
+
+// All 21 points in landmark order, thumb first, then index to pinky
+const buildHand = (thumbOut: boolean, fingersOut: boolean[]): Vector[] => {
+  const points: Vector[] = [[0, 0, 0], ...(thumbOut ? EXTENDED_THUMB : FOLDED_THUMB)];
+  KNUCKLES.forEach((knuckle, i) => points.push(knuckle, ...finger(knuckle, fingersOut[i])));
+  return points;
+};
+
+const rotateX = (angle: number) => ([x, y, z]: Vector): Vector =>
+  [x, y * Math.cos(angle) - z * Math.sin(angle), y * Math.sin(angle) + z * Math.cos(angle)];
+const rotateY = (angle: number) => ([x, y, z]: Vector): Vector =>
+  [x * Math.cos(angle) + z * Math.sin(angle), y, -x * Math.sin(angle) + z * Math.cos(angle)];
+const rotateZ = (angle: number) => ([x, y, z]: Vector): Vector =>
+  [x * Math.cos(angle) - y * Math.sin(angle), x * Math.sin(angle) + y * Math.cos(angle), z];
+
+// Hand frame to world space (y down, as the tracker reports it), turned as given
+const toTrackedHand = (points: Vector[], turns: Array<(point: Vector) => Vector> = []): TrackedHand => {
+  const world = points.map(([x, y, z]) => turns.reduce((point, turn) => turn(point), [x, -y, z] as Vector));
+  const toLandmark = ([x, y, z]: Vector): HandLandmark => ({ x, y, z });
+  return {
+    worldLandmarks: world.map(toLandmark),
+    // A hand a little left of centre, about a fifth of the frame tall
+    landmarks: world.map(([x, y, z]) => toLandmark([0.4 + x * 2, 0.5 + y * 2, z])),
+    handedness: 'Right',
+    handednessScore: 1
+  };
+};
+
+const ORIENTATIONS: Record<string, Array<(point: Vector) => Vector>> = {
+  upright: [],
+  'rolled clockwise': [rotateZ(-Math.PI / 4)],
+  'rolled anticlockwise': [rotateZ(Math.PI / 3)],
+  'tilted towards the camera': [rotateX(Math.PI / 4)],
+  'turned sideways': [rotateY(Math.PI / 4)],
+  'tilted and rolled': [rotateX(-Math.PI / 6), rotateY(Math.PI / 8), rotateZ(-Math.PI / 6)]
+};
+
+const SHAPES = {
+  fist: { hand: buildHand(false, [false, false, false, false]), fingerCount: 0, vowel: 'O' },
+  pointing: { hand: buildHand(false, [true, false, false, false]), fingerCount: 1, vowel: 'O' },
+  two: { hand: buildHand(false, [true, true, false, false]), fingerCount: 2, vowel: 'U' },
+  pinky: { hand: buildHand(false, [false, false, false, true]), fingerCount: 1, vowel: 'I' },
+  open: { hand: buildHand(true, [true, true, true, true]), fingerCount: 5, vowel: 'A' }
+};
+
+describe('classifyHand', () => {
+  it.each(Object.keys(ORIENTATIONS))('reads the same finger count and vowel with the hand %s', orientation => {
+    Object.values(SHAPES).forEach(({ hand, fingerCount, vowel }) => {
+      const gesture = classifyHand(toTrackedHand(hand, ORIENTATIONS[orientation]));
+
+      expect(gesture?.fingerCount).toBe(fingerCount);
+      expect(gesture?.vowel).toBe(vowel);
+    });
+  });
+
+  it.each(Object.keys(ORIENTATIONS))('reads the same pinch with the hand %s', orientation => {
+    const pinching = buildHand(true, [true, false, false, false]);
+    pinching[4] = add(pinching[8], [0.005, 0, 0]); // Thumb tip against the index tip
+
+    expect(classifyHand(toTrackedHand(pinching, ORIENTATIONS[orientation]))?.pinch).toBe(1);
+    expect(classifyHand(toTrackedHand(SHAPES.open.hand, ORIENTATIONS[orientation]))?.pinch).toBe(0);
+  });
+
+  it('reads roll from the turn on screen, clockwise positive on the mirrored view', () => {
+    const roll = (turns: Array<(point: Vector) => Vector>) => classifyHand(toTrackedHand(SHAPES.open.hand, turns))!.roll;
+
+    expect(roll([])).toBeCloseTo(0);
+    // Turning anticlockwise in the camera image shows as clockwise once mirrored
+    expect(roll([rotateZ(-Math.PI / 4)])).toBeCloseTo(0.5);
+    expect(roll([rotateZ(Math.PI / 4)])).toBeCloseTo(-0.5);
+    // Tilting towards the camera or turning sideways keeps the direction of the roll
+    expect(roll([rotateX(Math.PI / 4), rotateZ(-Math.PI / 4)])).toBeGreaterThan(0);
+    expect(roll([rotateY(Math.PI / 4), rotateZ(Math.PI / 4)])).toBeLessThan(0);
+  });
+
+  it('returns null for a hand with missing landmarks', () => {
+    const hand = toTrackedHand(SHAPES.open.hand);
+
+    expect(classifyHand({ ...hand, landmarks: hand.landmarks.slice(0, 10), worldLandmarks: [] })).toBeNull();
+  });
+});
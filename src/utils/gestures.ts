@@ -0,0 +1,109 @@
+// Hand shape from landmark geometry: joint angles and distances relative to the palm,
+// so the reading holds up however the hand is turned
+import { HandLandmark, TrackedHand } from '../types/handTracking';
+import { HandVowel } from '../types/performance';
+
+export interface HandGesture {
+  extended: boolean[]; // Thumb, index, middle, ring, pinky
+  fingerCount: number; // 0-5
+  pinch: number;       // 0 with thumb and index apart, 1 when they touch
+  roll: number;        // -1 to 1: a quarter turn anticlockwise to clockwise, as seen on the mirrored screen
+  z: number;           // 0 far from the camera, 1 close up
+  vowel: HandVowel;
+}
+
+// Landmark chains from the wrist (0) out to each fingertip
+const FINGER_CHAINS = [
+  [1, 2, 3, 4],       // Thumb: CMC, MCP, IP, tip
+  [0, 5, 6, 7, 8],    // Index: wrist, MCP, PIP, DIP, tip
+  [0, 9, 10, 11, 12], // Middle
+  [0, 13, 14, 15, 16], // Ring
+  [0, 17, 18, 19, 20]  // Pinky
+];
+
+const MAX_FINGER_BEND = Math.PI * 0.45; // Total bend (radians) a finger can have and still count as extended
+const MAX_THUMB_BEND = Math.PI * 0.3;
+const PINCH_CLOSED = 0.2; // Thumb-index distance, in palm lengths, that counts as touching
+const PINCH_OPEN = 0.7;   // ...and as fully apart
+const FAR_PALM = 0.05;    // Wrist-to-middle-knuckle length on screen, as a fraction of the frame, of a distant hand
+const NEAR_PALM = 0.35;   // ...and of one close to the camera
+
+const subtract = (a: HandLandmark, b: HandLandmark) => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const length = (v: HandLandmark) => Math.hypot(v.x, v.y, v.z);
+const distance = (a: HandLandmark, b: HandLandmark) => length(subtract(a, b));
+
+const angleBetween = (a: HandLandmark, b: HandLandmark): number => {
+  const lengths = length(a) * length(b);
+  if (lengths === 0) return 0;
+  const cosine = (a.x * b.x + a.y * b.y + a.z * b.z) / lengths;
+  return Math.acos(Math.max(-1, Math.min(1, cosine)));
+};
+
+// Sum of the turns between consecutive segments; 0 for a straight finger
+const chainBend = (points: HandLandmark[]): number => {
+  let bend = 0;
+  for (let i = 2; i < points.length; i++) {
+    bend += angleBetween(subtract(points[i - 1], points[i - 2]), subtract(points[i], points[i - 1]));
+  }
+  return bend;
+};
+
+// Vowel from which fingers are up:
+//   A: open palm        E: index, middle and ring up   I: pinky up
+//   O: fist or pointing U: index and middle up
+const vowelFromShape = (extended: boolean[]): HandVowel => {
+  // Extended fingers as a bit pattern: index, middle, ring, pinky
+  const shape = extended.slice(1).map(isExtended => isExtended ? '1' : '0').join('');
+  switch (shape) {
+    case '1111': return 'A';
+    case '1110': return 'E';
+    case '0001': return 'I';
+    case '1100': return 'U';
+    case '0000':
+    case '1000': return 'O';
+  }
+
+  const count = extended.slice(1).filter(Boolean).length;
+  if (count >= 3) return 'A'; // Mostly open
+  if (count <= 1) return 'O'; // Mostly closed
+  return 'NONE'; // Unclear gesture
+};
+
+// Null when the hand is missing landmarks
+export const classifyHand = (hand: TrackedHand): HandGesture | null => {
+  // World landmarks are metric and isotropic, so angles in them are true angles
+  const points = hand.worldLandmarks.length >= 21 ? hand.worldLandmarks : hand.landmarks;
+  if (points.length < 21) return null;
+
+  const palm = distance(points[0], points[9]); // Wrist to middle knuckle
+  if (palm === 0) return null;
+
+  const extended = FINGER_CHAINS.map((chain, finger) => {
+    const bend = chainBend(chain.map(index => points[index]));
+    if (finger > 0) return bend < MAX_FINGER_BEND;
+    // A straight thumb folded across the palm is not extended: its tip must also clear the IP joint
+    // in distance from the pinky knuckle
+    return bend < MAX_THUMB_BEND && distance(points[4], points[17]) > distance(points[3], points[17]);
+  });
+
+  const gap = distance(points[4], points[8]) / palm;
+  const pinch = Math.max(0, Math.min(1, (PINCH_OPEN - gap) / (PINCH_OPEN - PINCH_CLOSED)));
+
+  // Tilt of the wrist-to-middle-knuckle line from upright; x is negated because the screen is mirrored
+  const up = subtract(points[9], points[0]);
+  const roll = Math.max(-1, Math.min(1, Math.atan2(-up.x, -up.y) / (Math.PI / 2)));
+
+  // Distance from how big the palm looks: the landmarks' own z is only depth relative to the wrist
+  const screen = hand.landmarks.length >= 10 ? hand.landmarks : points;
+  const screenPalm = Math.hypot(screen[9].x - screen[0].x, screen[9].y - screen[0].y);
+  const z = Math.max(0, Math.min(1, (screenPalm - FAR_PALM) / (NEAR_PALM - FAR_PALM)));
+
+  return {
+    extended,
+    fingerCount: extended.filter(Boolean).length,
+    pinch,
+    roll,
+    z,
+    vowel: vowelFromShape(extended)
+  };
+};
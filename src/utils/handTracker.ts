@@ -0,0 +1,206 @@
+// Hand tracking behind one interface: MediaPipe Tasks HandLandmarker in a worker or on the
+// main thread, or recorded results played back in place of a camera
+import type { HandLandmarker } from '@mediapipe/tasks-vision';
+import {
+  HandLandmark,
+  HandTrackerMessage,
+  HandTrackerOptions,
+  HandTrackerRequest,
+  HandTrackingResult,
+  RawHandLandmarkerResult
+} from '../types/handTracking';
+import { HAND_LANDMARKER_MODEL_URL, MEDIAPIPE_BASE_URL, getTasksVisionAssetUrl } from './mediapipeAssets';
+
+export const HAND_TRACKER_WORKER_URL = '/handtracker/handtrackerworker.js';
+
+export interface HandTracker {
+  // Loads the model; rejects if any of its files cannot be fetched
+  initialize(): Promise<void>;
+  // `timestamp` is in ms and must increase from one call to the next
+  detect(video: HTMLVideoElement, timestamp: number): Promise<HandTrackingResult>;
+  close(): void;
+}
+
+// The subset of Worker the tracker relies on, so a stand-in can be passed
+export interface HandTrackerWorkerLike {
+  postMessage(message: HandTrackerRequest, transfer?: Transferable[]): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<HandTrackerMessage>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+const toLandmark = ({ x, y, z }: HandLandmark): HandLandmark => ({ x, y, z });
+
+export const toHandTrackingResult = (raw: RawHandLandmarkerResult, timestamp: number): HandTrackingResult => ({
+  timestamp,
+  hands: raw.landmarks.map((landmarks, index) => {
+    const category = raw.handedness[index]?.[0];
+    return {
+      landmarks: landmarks.map(toLandmark),
+      worldLandmarks: (raw.worldLandmarks[index] ?? []).map(toLandmark),
+      handedness: category?.categoryName === 'Left' ? 'Left' : 'Right',
+      handednessScore: category?.score ?? 0
+    };
+  })
+});
+
+export class WorkerHandTracker implements HandTracker {
+  private worker: HandTrackerWorkerLike;
+  private options: HandTrackerOptions;
+  private nextId = 1;
+  private pending: Map<number, {
+    timestamp: number;
+    resolve: (result: HandTrackingResult) => void;
+    reject: (error: Error) => void;
+  }> = new Map();
+  private ready: Promise<void> | null = null;
+  private isClosed = false;
+
+  constructor(
+    options: HandTrackerOptions = {},
+    worker: HandTrackerWorkerLike = new Worker(HAND_TRACKER_WORKER_URL)
+  ) {
+    this.options = options;
+    this.worker = worker;
+  }
+
+  initialize(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    this.ready = new Promise((resolve, reject) => {
+      this.worker.onmessage = (event) => {
+        const message = event.data;
+        if (message.type === 'Ready') {
+          resolve();
+        } else if (message.type === 'Error' && message.id === undefined) {
+          reject(new Error(`Hand tracker failed to load: ${message.message}`));
+        } else {
+          this.handleMessage(message);
+        }
+      };
+      this.worker.onerror = (event) => {
+        const error = new Error(`Hand tracker worker error: ${event.message}`);
+        reject(error);
+        this.rejectAll(error);
+      };
+      this.worker.postMessage({ type: 'Init', assetBaseUrl: MEDIAPIPE_BASE_URL, options: this.options });
+    });
+    return this.ready;
+  }
+
+  async detect(video: HTMLVideoElement, timestamp: number): Promise<HandTrackingResult> {
+    const frame = await createImageBitmap(video);
+    if (this.isClosed) {
+      frame.close();
+      throw new Error('Hand tracker closed');
+    }
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { timestamp, resolve, reject });
+      this.worker.postMessage({ type: 'Detect', id, frame, timestamp }, [frame]);
+    });
+  }
+
+  close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.worker.postMessage({ type: 'Close' });
+    this.worker.terminate();
+    this.rejectAll(new Error('Hand tracker closed'));
+  }
+
+  private handleMessage(message: HandTrackerMessage): void {
+    if (message.type === 'Ready' || message.id === undefined) return;
+
+    const request = this.pending.get(message.id);
+    if (!request) return;
+    this.pending.delete(message.id);
+
+    if (message.type === 'Result') {
+      request.resolve(toHandTrackingResult(message.result, request.timestamp));
+    } else {
+      request.reject(new Error(message.message));
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+// Same model on the main thread, for browsers where the worker cannot run it
+export class MainThreadHandTracker implements HandTracker {
+  private options: HandTrackerOptions;
+  private landmarker: HandLandmarker | null = null;
+
+  constructor(options: HandTrackerOptions = {}) {
+    this.options = options;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.landmarker) return;
+
+    const { FilesetResolver, HandLandmarker } = await import('@mediapipe/tasks-vision');
+    const fileset = await FilesetResolver.forVisionTasks(getTasksVisionAssetUrl('wasm'));
+    this.landmarker = await HandLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: HAND_LANDMARKER_MODEL_URL, delegate: 'GPU' },
+      runningMode: 'VIDEO',
+      ...this.options
+    });
+  }
+
+  async detect(video: HTMLVideoElement, timestamp: number): Promise<HandTrackingResult> {
+    if (!this.landmarker) throw new Error('Hand tracker is not initialized');
+    return toHandTrackingResult(this.landmarker.detectForVideo(video, timestamp), timestamp);
+  }
+
+  close(): void {
+    this.landmarker?.close();
+    this.landmarker = null;
+  }
+}
+
+// Feeds recorded results back one per frame, ignoring the video; with `loop` it starts over at the end
+export class MockHandTracker implements HandTracker {
+  private frames: HandTrackingResult[];
+  private loop: boolean;
+  private index = 0;
+
+  constructor(frames: HandTrackingResult[], { loop = false }: { loop?: boolean } = {}) {
+    this.frames = frames;
+    this.loop = loop;
+  }
+
+  async initialize(): Promise<void> {}
+
+  async detect(video: HTMLVideoElement, timestamp: number): Promise<HandTrackingResult> {
+    if (this.index >= this.frames.length && this.loop) this.index = 0;
+
+    const frame = this.frames[this.index++];
+    return { timestamp, hands: frame?.hands ?? [] };
+  }
+
+  close(): void {
+    this.index = 0;
+  }
+}
+
+// Prefer the worker so tracking stays off the audio and UI thread; fall back when it cannot start
+export const createHandTracker = async (options: HandTrackerOptions = {}): Promise<HandTracker> => {
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function') {
+    const tracker = new WorkerHandTracker(options);
+    try {
+      await tracker.initialize();
+      return tracker;
+    } catch (err) {
+      console.warn('Hand tracking worker unavailable, running on the main thread:', err);
+      tracker.close();
+    }
+  }
+
+  const tracker = new MainThreadHandTracker(options);
+  await tracker.initialize();
+  return tracker;
+};
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HarmonizerMessage, HarmonizerNote, HarmonizerRequest } from '../types/harmonizer';
+import { HarmonizerClient, HarmonizerClientError, HarmonizerWorkerLike } from './harmonizerClient';
+
+// Records what the client sends; the test plays the worker's side by hand
+class FakeWorker implements HarmonizerWorkerLike {
+  sent: HarmonizerRequest[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent<HarmonizerMessage>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(message: HarmonizerRequest): void {
+    this.sent.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(message: HarmonizerMessage): void {
+    this.onmessage?.({ data: message } as MessageEvent<HarmonizerMessage>);
+  }
+
+  fail(message: string): void {
+    this.onerror?.({ message } as ErrorEvent);
+  }
+}
+
+const voices = (soprano: number): HarmonizerNote[] =>
+  [soprano, soprano - 5, soprano - 12, soprano - 24].map(midiNote => ({ midiNote, tie: false, probability: 1 }));
+
+const makeClient = (defaultTimeout = 5000) => {
+  const worker = new FakeWorker();
+  const client = new HarmonizerClient(worker, { defaultTimeout });
+  return { worker, client };
+};
+
+const errorCode = (promise: Promise<unknown>) =>
+  promise.then(() => null, (error: HarmonizerClientError) => error.code);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('HarmonizerClient', () => {
+  it('holds requests until the worker is ready, then sends them one at a time in order', async () => {
+    const { worker, client } = makeClient();
+    const first = client.harmonize(72);
+    const second = client.harmonize(74);
+    expect(worker.sent).toEqual([]);
+
+    worker.reply({ type: 'Loaded' });
+    expect(worker.sent.map(request => 'note' in request && request.note)).toEqual([72]);
+
+    worker.reply({ type: 'Notes', id: worker.sent[0].id, notes: voices(72) });
+    expect(worker.sent.map(request => 'note' in request && request.note)).toEqual([72, 74]);
+
+    worker.reply({ type: 'Notes', id: worker.sent[1].id, notes: voices(74) });
+    expect((await first).soprano.midiNote).toBe(72);
+    expect((await second).soprano.midiNote).toBe(74);
+    expect(client.pendingCount).toBe(0);
+  });
+
+  it('ignores replies whose id does not match the request in flight', async () => {
+    const { worker, client } = makeClient();
+    worker.reply({ type: 'Loaded' });
+    const chord = client.harmonize(72);
+    const { id } = worker.sent[0];
+
+    worker.reply({ type: 'Notes', id: id + 1, notes: voices(60) });
+    expect(client.pendingCount).toBe(1);
+
+    worker.reply({ type: 'Notes', id, notes: voices(72) });
+    expect((await chord).soprano.midiNote).toBe(72);
+  });
+
+  it('cancels queued and in-flight requests through their signal', async () => {
+    const { worker, client } = makeClient();
+    worker.reply({ type: 'Loaded' });
+    const inFlight = new AbortController();
+    const queued = new AbortController();
+    const first = client.harmonize(72, { signal: inFlight.signal });
+    const second = client.harmonize(74, { signal: queued.signal });
+    const third = client.harmonize(76);
+
+    queued.abort();
+    expect(await errorCode(second)).toBe('cancelled');
+    inFlight.abort();
+    expect(await errorCode(first)).toBe('cancelled');
+
+    // The cancelled reply is dropped and the queue moves straight to the next request
+    expect(worker.sent.map(request => 'note' in request && request.note)).toEqual([72, 76]);
+    worker.reply({ type: 'Notes', id: worker.sent[0].id, notes: voices(72) });
+    worker.reply({ type: 'Notes', id: worker.sent[1].id, notes: voices(76) });
+    expect((await third).soprano.midiNote).toBe(76);
+  });
+
+  it('rejects a request that is already aborted without queuing it', async () => {
+    const { client } = makeClient();
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await errorCode(client.reset({ signal: controller.signal }))).toBe('cancelled');
+    expect(client.pendingCount).toBe(0);
+  });
+
+  it('times out a request from when it reaches the worker and moves on', async () => {
+    vi.useFakeTimers();
+    const { worker, client } = makeClient(100);
+    const slow = errorCode(client.harmonize(72));
+    const next = client.reset();
+
+    // Waiting for the model does not count against the timeout
+    await vi.advanceTimersByTimeAsync(500);
+    expect(client.pendingCount).toBe(2);
+
+    worker.reply({ type: 'Loaded' });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await slow).toBe('timeout');
+    expect(worker.sent.map(request => request.type)).toEqual([undefined, 'Reset']);
+
+    worker.reply({ type: 'Reset', id: worker.sent[1].id });
+    await expect(next).resolves.toBeUndefined();
+  });
+
+  it('rejects everything pending and every later call once terminated', async () => {
+    const { worker, client } = makeClient();
+    worker.reply({ type: 'Loaded' });
+    const inFlight = errorCode(client.harmonize(72));
+    const queued = errorCode(client.snapshot());
+
+    client.terminate();
+
+    expect(await inFlight).toBe('terminated');
+    expect(await queued).toBe('terminated');
+    expect(await errorCode(client.reset())).toBe('terminated');
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('rejects queued requests and every later call when the model fails to load', async () => {
+    const { worker, client } = makeClient();
+    const harmonize = errorCode(client.harmonize(72));
+    const reset = errorCode(client.reset());
+
+    worker.fail('model not found');
+
+    expect(await errorCode(client.ready)).toBe('load-failed');
+    expect(await harmonize).toBe('load-failed');
+    expect(await reset).toBe('load-failed');
+    expect(await errorCode(client.restore({ hs: new Float32Array(), cs: new Float32Array(), output: new Float32Array() }))).toBe('load-failed');
+    expect(worker.sent).toEqual([]);
+    expect(client.pendingCount).toBe(0);
+  });
+
+  it('fails only the request in flight on a worker error after loading', async () => {
+    const { worker, client } = makeClient();
+    worker.reply({ type: 'Loaded' });
+    const first = errorCode(client.harmonize(72));
+    const second = client.harmonize(74);
+
+    worker.fail('boom');
+    expect(await first).toBe('worker-error');
+
+    worker.reply({ type: 'Notes', id: worker.sent[1].id, notes: voices(74) });
+    expect((await second).soprano.midiNote).toBe(74);
+  });
+});
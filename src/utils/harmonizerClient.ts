@@ -0,0 +1,285 @@
+// Promise-based client for the harmonizer worker, usable with or without React
+import {
+  HarmonizerMessage,
+  HarmonizerNote,
+  HarmonizerRequest,
+  HarmonizerStateSnapshot,
+  HarmonyChord,
+  SamplingOptions
+} from '../types/harmonizer';
+
+export const HARMONIZER_WORKER_URL = '/harmonizer/harmonizerworker.js';
+
+// The subset of Worker the client relies on, so tests and scripts can pass a stand-in
+export interface HarmonizerWorkerLike {
+  postMessage(message: HarmonizerRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<HarmonizerMessage>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export type HarmonizerClientErrorCode = 'cancelled' | 'timeout' | 'terminated' | 'load-failed' | 'worker-error';
+
+export class HarmonizerClientError extends Error {
+  readonly code: HarmonizerClientErrorCode;
+
+  constructor(code: HarmonizerClientErrorCode, message: string) {
+    super(message);
+    this.name = 'HarmonizerClientError';
+    this.code = code;
+  }
+}
+
+export const isHarmonizerCancellation = (error: unknown): boolean => {
+  return error instanceof HarmonizerClientError && error.code === 'cancelled';
+};
+
+// Requests as callers build them; the client assigns the id
+type UnsentRequest<R = HarmonizerRequest> = R extends HarmonizerRequest ? Omit<R, 'id'> : never;
+
+export interface RequestOptions {
+  timeout?: number; // ms, measured from when the request reaches the worker
+  signal?: AbortSignal;
+}
+
+export interface HarmonizeOptions extends RequestOptions, SamplingOptions {}
+
+export interface HarmonizerClientOptions {
+  defaultTimeout?: number;
+}
+
+interface PendingRequest {
+  id: number;
+  message: HarmonizerRequest;
+  timeout: number;
+  resolve: (message: HarmonizerMessage) => void;
+  reject: (error: HarmonizerClientError) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  detachSignal: () => void;
+}
+
+export const notesToChord = (notes: HarmonizerNote[]): HarmonyChord => {
+  if (notes.length < 4) {
+    throw new HarmonizerClientError('worker-error', `Expected 4 voices, received ${notes.length}`);
+  }
+
+  const [soprano, alto, tenor, bass] = notes;
+  return { soprano, alto, tenor, bass };
+};
+
+export class HarmonizerClient {
+  readonly ready: Promise<void>;
+  private worker: HarmonizerWorkerLike;
+  private defaultTimeout: number;
+  private nextId = 1;
+  // Requests go to the worker one at a time so queued ones can still be cancelled
+  private queue: PendingRequest[] = [];
+  private inFlight: PendingRequest | null = null;
+  private isReady = false;
+  private isTerminated = false;
+  // Set when the worker fails before it is ready; every request after that fails with it
+  private loadError: HarmonizerClientError | null = null;
+  private resolveReady!: () => void;
+  private rejectReady!: (error: HarmonizerClientError) => void;
+
+  constructor(
+    worker: HarmonizerWorkerLike = new Worker(HARMONIZER_WORKER_URL),
+    options: HarmonizerClientOptions = {}
+  ) {
+    this.worker = worker;
+    this.defaultTimeout = options.defaultTimeout ?? 5000;
+
+    this.ready = new Promise((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+    // Avoid unhandled rejections for callers that never await `ready`
+    this.ready.catch(() => {});
+
+    this.worker.onmessage = (event) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => this.handleError(event);
+  }
+
+  get pendingCount(): number {
+    return this.queue.length + (this.inFlight ? 1 : 0);
+  }
+
+  harmonize(note: number, options: HarmonizeOptions = {}): Promise<HarmonyChord> {
+    const { temperature, seed } = options;
+    return this.request({ note, temperature, seed }, options).then(message => notesToChord(message.notes ?? []));
+  }
+
+  // Up to `count` distinct voicings ranked by likelihood; the model continues from the first
+  harmonizeAlternatives(note: number, count: number, options: RequestOptions = {}): Promise<HarmonyChord[]> {
+    return this.request({ type: 'Alternatives', note, count }, options).then(message => {
+      return (message.chords ?? []).map(notesToChord);
+    });
+  }
+
+  // A whole melody harmonized in one request, from a fresh context and without sampling.
+  // The live context is left as it was, so the result only depends on the melody.
+  harmonizeMelody(melody: number[], options: RequestOptions = {}): Promise<HarmonyChord[]> {
+    return this.request({ type: 'Melody', notes: melody }, options).then(message => {
+      const chords = (message.chords ?? []).map(notesToChord);
+      if (chords.length !== melody.length) {
+        throw new HarmonizerClientError('worker-error', `Expected ${melody.length} chords, received ${chords.length}`);
+      }
+      return chords;
+    });
+  }
+
+  // Forget all previous notes and start again from the START token
+  reset(options: RequestOptions = {}): Promise<void> {
+    return this.request({ type: 'Reset' }, options).then(() => undefined);
+  }
+
+  // Copy of the recurrent state as it will be after every request queued so far
+  snapshot(options: RequestOptions = {}): Promise<HarmonizerStateSnapshot> {
+    return this.request({ type: 'Snapshot' }, options).then(message => {
+      if (!message.state) {
+        throw new HarmonizerClientError('worker-error', 'Snapshot reply carried no state');
+      }
+      return message.state;
+    });
+  }
+
+  restore(state: HarmonizerStateSnapshot, options: RequestOptions = {}): Promise<void> {
+    return this.request({ type: 'Restore', state }, options).then(() => undefined);
+  }
+
+  // Reject everything that has not been answered yet
+  cancelAll(): void {
+    const pending = [...this.queue, ...(this.inFlight ? [this.inFlight] : [])];
+    this.queue = [];
+    this.inFlight = null;
+    pending.forEach(request => this.settle(request, new HarmonizerClientError('cancelled', 'Harmonizer request cancelled')));
+  }
+
+  terminate(): void {
+    if (this.isTerminated) return;
+
+    this.isTerminated = true;
+    const pending = [...this.queue, ...(this.inFlight ? [this.inFlight] : [])];
+    this.queue = [];
+    this.inFlight = null;
+    pending.forEach(request => this.settle(request, new HarmonizerClientError('terminated', 'Harmonizer terminated')));
+
+    this.rejectReady(new HarmonizerClientError('terminated', 'Harmonizer terminated'));
+    this.worker.terminate();
+  }
+
+  private request(message: UnsentRequest, options: RequestOptions): Promise<HarmonizerMessage> {
+    if (this.isTerminated) {
+      return Promise.reject(new HarmonizerClientError('terminated', 'Harmonizer terminated'));
+    }
+    if (this.loadError) {
+      return Promise.reject(this.loadError);
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new HarmonizerClientError('cancelled', 'Harmonizer request cancelled'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      const request: PendingRequest = {
+        id,
+        message: { ...message, id } as HarmonizerRequest,
+        timeout: options.timeout ?? this.defaultTimeout,
+        resolve,
+        reject,
+        timer: null,
+        detachSignal: () => {}
+      };
+
+      if (options.signal) {
+        const signal = options.signal;
+        const onAbort = () => this.cancel(request);
+        signal.addEventListener('abort', onAbort, { once: true });
+        request.detachSignal = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.queue.push(request);
+      this.pump();
+    });
+  }
+
+  private cancel(request: PendingRequest): void {
+    if (this.inFlight === request) {
+      // Its reply will be ignored; move on to the next request
+      this.inFlight = null;
+      this.pump();
+    } else {
+      this.queue = this.queue.filter(queued => queued !== request);
+    }
+    this.settle(request, new HarmonizerClientError('cancelled', 'Harmonizer request cancelled'));
+  }
+
+  private pump(): void {
+    if (!this.isReady || this.inFlight || this.queue.length === 0) return;
+
+    const request = this.queue.shift()!;
+    this.inFlight = request;
+
+    request.timer = setTimeout(() => {
+      if (this.inFlight === request) {
+        this.inFlight = null;
+        this.pump();
+      }
+      this.settle(request, new HarmonizerClientError('timeout', `Harmonizer did not answer within ${request.timeout}ms`));
+    }, request.timeout);
+
+    this.worker.postMessage(request.message);
+  }
+
+  private settle(request: PendingRequest, result: HarmonizerMessage | HarmonizerClientError): void {
+    if (request.timer !== null) clearTimeout(request.timer);
+    request.detachSignal();
+
+    if (result instanceof HarmonizerClientError) {
+      request.reject(result);
+    } else {
+      request.resolve(result);
+    }
+  }
+
+  private handleMessage(message: HarmonizerMessage): void {
+    if (message.type === 'Loaded') {
+      this.isReady = true;
+      this.resolveReady();
+      this.pump();
+      return;
+    }
+
+    // Replies to cancelled or timed-out requests are dropped
+    const request = this.inFlight;
+    if (!request || message.id !== request.id) return;
+
+    this.inFlight = null;
+    this.settle(request, message);
+    this.pump();
+  }
+
+  private handleError(event: ErrorEvent): void {
+    const error = this.isReady
+      ? new HarmonizerClientError('worker-error', `Harmonizer worker error: ${event.message}`)
+      : new HarmonizerClientError('load-failed', `Harmonizer failed to load: ${event.message}`);
+
+    this.rejectReady(error);
+
+    // Nothing is sent before the worker is ready, so everything queued would wait forever
+    if (!this.isReady) {
+      this.loadError = error;
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(request => this.settle(request, error));
+      return;
+    }
+
+    const request = this.inFlight;
+    if (request) {
+      this.inFlight = null;
+      this.settle(request, error);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,458 @@
+// Instrument presets the engine can render each SATB part with
+import { VoiceType } from '../types/harmonizer';
+import { Vowel } from '../types/performance';
+import { dbToGain, getVowelFormants } from './formants';
+
+export interface VoiceOptions {
+  midiNote: number;
+  voiceType: VoiceType;
+  startTime: number;  // Context time the note begins
+  attackTime: number; // Seconds
+  vowel: Vowel;
+}
+
+// One sounding note of an instrument, as driven by VocalAudioEngine
+export interface InstrumentVoice {
+  midiNote: number;
+  onEnded: (() => void) | null;
+  start(when?: number): void;
+  stop(when?: number, releaseTime?: number): void;
+  glideTo(midiNote: number, when: number, glideTime: number): void;
+  rearticulate(when: number, attackTime: number): void;
+  setVibrato(depth: number, rate: number, when: number): void;
+  // Only instruments with formants have vowels
+  setVowel?(vowel: Vowel, when: number, morphTime: number): void;
+}
+
+export type InstrumentId = 'vocal' | 'organ' | 'strings' | 'fmBell' | 'marimba';
+
+export interface InstrumentPreset {
+  id: InstrumentId;
+  name: string;
+  // Legato instruments hold and glide between notes; the others strike every new note
+  legato: boolean;
+  // Fetch anything the instrument needs before its first note, e.g. samples
+  load?: (context: BaseAudioContext) => Promise<void>;
+  createVoice: (context: BaseAudioContext, destination: AudioNode, options: VoiceOptions) => InstrumentVoice;
+}
+
+const midiToFrequency = (midiNote: number): number => {
+  return 440 * Math.pow(2, (midiNote - 69) / 12);
+};
+
+// Envelope, glide, vibrato and lifetime shared by every instrument.
+// Subclasses build their sound, register its sources and connect it to `envelope`.
+abstract class BaseVoice implements InstrumentVoice {
+  midiNote: number;
+  onEnded: (() => void) | null = null;
+  protected audioContext: BaseAudioContext;
+  protected envelope: GainNode;
+  protected startTime: number;
+  private attackTime: number;
+  // Start and starting level of the latest attack ramp, for levelAt
+  private attackStart: number;
+  private attackFrom = 0;
+  private sustainLevel: number;
+  private sources: AudioScheduledSourceNode[] = [];
+  // Params that follow the voice's pitch, each at `ratio` times the frequency
+  private pitchedParams: Array<{ param: AudioParam; ratio: number }> = [];
+  private vibratoLfo: OscillatorNode;
+  private vibratoDepth: GainNode;
+
+  constructor(audioContext: BaseAudioContext, destination: AudioNode, options: VoiceOptions, sustainLevel: number) {
+    this.audioContext = audioContext;
+    this.midiNote = options.midiNote;
+    this.startTime = options.startTime;
+    this.attackTime = Math.max(options.attackTime, 0.005);
+    this.attackStart = options.startTime;
+    this.sustainLevel = sustainLevel;
+
+    this.envelope = audioContext.createGain();
+    this.envelope.connect(destination);
+    this.envelope.gain.setValueAtTime(0, this.startTime);
+    this.envelope.gain.linearRampToValueAtTime(this.sustainLevel, this.startTime + this.attackTime);
+
+    // Vibrato modulates every source's detune in cents; silent until setVibrato
+    this.vibratoLfo = audioContext.createOscillator();
+    this.vibratoDepth = audioContext.createGain();
+    this.vibratoLfo.type = 'sine';
+    this.vibratoLfo.frequency.setValueAtTime(5, audioContext.currentTime);
+    this.vibratoDepth.gain.setValueAtTime(0, audioContext.currentTime);
+    this.vibratoLfo.connect(this.vibratoDepth);
+  }
+
+  protected get frequency(): number {
+    return midiToFrequency(this.midiNote);
+  }
+
+  protected addOscillator(oscillator: OscillatorNode, ratio = 1): void {
+    oscillator.frequency.setValueAtTime(this.frequency * ratio, this.audioContext.currentTime);
+    this.addSource(oscillator, oscillator.frequency, ratio);
+  }
+
+  // Samples are repitched from the note they were recorded at
+  protected addBufferSource(source: AudioBufferSourceNode, rootNote: number): void {
+    const ratio = 1 / midiToFrequency(rootNote);
+    source.playbackRate.setValueAtTime(this.frequency * ratio, this.audioContext.currentTime);
+    this.addSource(source, source.playbackRate, ratio);
+  }
+
+  private addSource(source: OscillatorNode | AudioBufferSourceNode, pitch: AudioParam, ratio: number): void {
+    if (this.sources.length === 0) {
+      source.onended = () => this.onEnded?.();
+    }
+    this.sources.push(source);
+    this.pitchedParams.push({ param: pitch, ratio });
+    this.vibratoDepth.connect(source.detune);
+  }
+
+  // Envelope level at a context time, so releases can be scheduled ahead of playback
+  protected levelAt(time: number): number {
+    if (time <= this.audioContext.currentTime) return this.envelope.gain.value;
+    const progress = Math.max(0, Math.min(1, (time - this.attackStart) / this.attackTime));
+    return this.attackFrom + (this.sustainLevel - this.attackFrom) * progress;
+  }
+
+  glideTo(midiNote: number, when: number, glideTime: number): void {
+    const at = Math.max(when, this.startTime);
+    // Approaches the target exponentially, reaching ~95% after glideTime
+    const timeConstant = Math.max(glideTime, 0.001) / 3;
+
+    this.midiNote = midiNote;
+    this.pitchedParams.forEach(({ param, ratio }) => {
+      param.cancelScheduledValues(at);
+      param.setTargetAtTime(this.frequency * ratio, at, timeConstant);
+    });
+  }
+
+  // Sound the same pitch again without restarting the sources
+  rearticulate(when: number, attackTime: number): void {
+    const at = Math.max(when, this.startTime);
+    const dipTime = 0.03;
+    const dipLevel = this.sustainLevel * 0.3;
+
+    this.envelope.gain.cancelScheduledValues(at);
+    this.envelope.gain.setValueAtTime(this.levelAt(at), at);
+    this.envelope.gain.linearRampToValueAtTime(dipLevel, at + dipTime);
+
+    this.attackTime = Math.max(attackTime, 0.005);
+    this.attackStart = at + dipTime;
+    this.attackFrom = dipLevel;
+    this.envelope.gain.linearRampToValueAtTime(this.sustainLevel, this.attackStart + this.attackTime);
+  }
+
+  setVibrato(depth: number, rate: number, when: number): void {
+    const at = Math.max(when, this.startTime);
+    this.vibratoDepth.gain.setTargetAtTime(Math.max(0, depth), at, 0.05);
+    if (rate > 0) {
+      this.vibratoLfo.frequency.setTargetAtTime(rate, at, 0.05);
+    }
+  }
+
+  start(when: number = this.audioContext.currentTime): void {
+    this.sources.forEach(source => source.start(when));
+    this.vibratoLfo.start(when);
+  }
+
+  stop(when: number = this.audioContext.currentTime, releaseTime = 0.1): void {
+    // A voice can't be released before it has started
+    const now = Math.max(when, this.startTime);
+    const end = now + Math.max(releaseTime, 0.005);
+
+    // Fade out
+    this.envelope.gain.cancelScheduledValues(now);
+    this.envelope.gain.setValueAtTime(this.levelAt(now), now);
+    this.envelope.gain.linearRampToValueAtTime(0, end);
+
+    // Stop sources after fade out
+    this.sources.forEach(source => source.stop(end));
+    this.vibratoLfo.stop(end);
+  }
+}
+
+// Sawtooth + triangle through a parallel F1-F3 formant bank
+class VocalVoice extends BaseVoice {
+  private voiceType: VoiceType;
+  private formantFilters: BiquadFilterNode[];
+  private formantGains: GainNode[];
+  private readonly formantMakeup = 3; // Narrow formants pass few harmonics, so boost them back up
+
+  constructor(audioContext: BaseAudioContext, destination: AudioNode, options: VoiceOptions) {
+    super(audioContext, destination, options, 0.25); // Equal volume for all voices
+    this.voiceType = options.voiceType;
+
+    const oscillator1 = audioContext.createOscillator();
+    const oscillator2 = audioContext.createOscillator();
+    const sourceNode = audioContext.createGain();
+    oscillator1.type = 'sawtooth';
+    oscillator2.type = 'triangle';
+    // Slight detuning for richness
+    this.addOscillator(oscillator1);
+    this.addOscillator(oscillator2, 1.002);
+    oscillator1.connect(sourceNode);
+    oscillator2.connect(sourceNode);
+
+    this.formantFilters = [0, 1, 2].map(() => audioContext.createBiquadFilter());
+    this.formantGains = [0, 1, 2].map(() => audioContext.createGain());
+    this.formantFilters.forEach((filter, i) => {
+      filter.type = 'bandpass';
+      sourceNode.connect(filter);
+      filter.connect(this.formantGains[i]);
+      this.formantGains[i].connect(this.envelope);
+    });
+    this.setVowel(options.vowel, audioContext.currentTime, 0);
+  }
+
+  // Move F1-F3 to the vowel's frequencies, bandwidths and levels for this voice type
+  setVowel(vowel: Vowel, when: number, morphTime: number): void {
+    const timeConstant = Math.max(morphTime, 0.001) / 3;
+
+    getVowelFormants(this.voiceType, vowel).forEach((formant, i) => {
+      const filter = this.formantFilters[i];
+      const level = dbToGain(formant.gain) * this.formantMakeup;
+
+      if (morphTime <= 0) {
+        filter.frequency.setValueAtTime(formant.frequency, when);
+        filter.Q.setValueAtTime(formant.frequency / formant.bandwidth, when);
+        this.formantGains[i].gain.setValueAtTime(level, when);
+      } else {
+        filter.frequency.setTargetAtTime(formant.frequency, when, timeConstant);
+        filter.Q.setTargetAtTime(formant.frequency / formant.bandwidth, when, timeConstant);
+        this.formantGains[i].gain.setTargetAtTime(level, when, timeConstant);
+      }
+    });
+  }
+}
+
+// Additive sines at drawbar footages (16', 8', 4', 2 2/3', 2', 1 1/3')
+class OrganVoice extends BaseVoice {
+  private static readonly DRAWBARS: Array<[number, number]> = [
+    [0.5, 0.5], [1, 1], [2, 0.6], [3, 0.35], [4, 0.25], [6, 0.1]
+  ];
+
+  constructor(audioContext: BaseAudioContext, destination: AudioNode, options: VoiceOptions) {
+    super(audioContext, destination, options, 0.18);
+
+    const total = OrganVoice.DRAWBARS.reduce((sum, [, level]) => sum + level, 0);
+    OrganVoice.DRAWBARS.forEach(([ratio, level]) => {
+      const oscillator = audioContext.createOscillator();
+      const drawbar = audioContext.createGain();
+      oscillator.type = 'sine';
+      drawbar.gain.setValueAtTime(level / total, audioContext.currentTime);
+      this.addOscillator(oscillator, ratio);
+      oscillator.connect(drawbar);
+      drawbar.connect(this.envelope);
+    });
+  }
+}
+
+// Three detuned sawtooths through a soft lowpass, with a slow bow-like attack
+class StringPadVoice extends BaseVoice {
+  constructor(audioContext: BaseAudioContext, destination: AudioNode, options: VoiceOptions) {
+    super(audioContext, destination, { ...options, attackTime: Math.max(options.attackTime, 0.25) }, 0.2);
+
+    const filter = audioContext.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(2400, audioContext.currentTime);
+    filter.Q.setValueAtTime(0.5, audioContext.currentTime);
+    filter.connect(this.envelope);
+
+    [1, 1.003, 0.997].forEach(ratio => {
+      const oscillator = audioContext.createOscillator();
+      const level = audioContext.createGain();
+      oscillator.type = 'sawtooth';
+      level.gain.setValueAtTime(1 / 3, audioContext.currentTime);
+      this.addOscillator(oscillator, ratio);
+      oscillator.connect(level);
+      level.connect(filter);
+    });
+  }
+}
+
+// Two-operator FM with an inharmonic modulator; brightness and level decay like a struck bell
+class FmBellVoice extends BaseVoice {
+  private decay: GainNode;
+  private modulationDepth: GainNode;
+  private readonly decayTime = 3;
+  private readonly modulationIndex = 2;
+
+  constructor(audioContext: BaseAudioContext, destination: AudioNode, options: VoiceOptions) {
+    super(audioContext, destination, options, 0.3);
+
+    const carrier = audioContext.createOscillator();
+    const modulator = audioContext.createOscillator();
+    this.modulationDepth = audioContext.createGain();
+    this.decay = audioContext.createGain();
+    carrier.type = 'sine';
+    modulator.type = 'sine';
+    this.addOscillator(carrier);
+    this.addOscillator(modulator, 3.5);
+
+    modulator.connect(this.modulationDepth);
+    this.modulationDepth.connect(carrier.frequency);
+    carrier.connect(this.decay);
+    this.decay.connect(this.envelope);
+
+    this.strike(this.startTime);
+  }
+
+  private strike(when: number): void {
+    const peakDepth = this.frequency * 3.5 * this.modulationIndex;
+
+    this.decay.gain.cancelScheduledValues(when);
+    this.decay.gain.setValueAtTime(1, when);
+    this.decay.gain.exponentialRampToValueAtTime(0.001, when + this.decayTime);
+
+    this.modulationDepth.gain.cancelScheduledValues(when);
+    this.modulationDepth.gain.setValueAtTime(peakDepth, when);
+    this.modulationDepth.gain.exponentialRampToValueAtTime(peakDepth * 0.05, when + this.decayTime / 2);
+  }
+
+  rearticulate(when: number, attackTime: number): void {
+    super.rearticulate(when, attackTime);
+    this.strike(Math.max(when, this.startTime));
+  }
+}
+
+interface LoadedSample {
+  note: number;
+  buffer: AudioBuffer;
+}
+
+interface SampleManifest {
+  name: string;
+  samples: Array<{ note: number; file: string }>;
+}
+
+// Plays the recorded sample closest to the note, repitched to fit
+class SampleVoice extends BaseVoice {
+  constructor(audioContext: BaseAudioContext, destination: AudioNode, options: VoiceOptions, samples: LoadedSample[]) {
+    super(audioContext, destination, options, 0.4);
+
+    const sample = samples.reduce((nearest, candidate) =>
+      Math.abs(candidate.note - options.midiNote) < Math.abs(nearest.note - options.midiNote) ? candidate : nearest
+    );
+    const source = audioContext.createBufferSource();
+    source.buffer = sample.buffer;
+    this.addBufferSource(source, sample.note);
+    source.connect(this.envelope);
+  }
+}
+
+// Sample sets live in public/samples/<name>/ next to a manifest.json listing each file's note
+export const createSamplerPreset = (id: InstrumentId, name: string, baseUrl: string): InstrumentPreset => {
+  const loading = new WeakMap<BaseAudioContext, Promise<LoadedSample[]>>();
+  const loaded = new WeakMap<BaseAudioContext, LoadedSample[]>();
+
+  const fetchSamples = async (context: BaseAudioContext): Promise<LoadedSample[]> => {
+    const response = await fetch(`${baseUrl}/manifest.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${baseUrl}/manifest.json: ${response.status}`);
+    }
+
+    const manifest: SampleManifest = await response.json();
+    if (manifest.samples.length === 0) {
+      throw new Error(`${baseUrl}/manifest.json lists no samples`);
+    }
+
+    return Promise.all(manifest.samples.map(async ({ note, file }) => {
+      const sampleResponse = await fetch(`${baseUrl}/${file}`);
+      if (!sampleResponse.ok) {
+        throw new Error(`Failed to load ${baseUrl}/${file}: ${sampleResponse.status}`);
+      }
+      const buffer = await context.decodeAudioData(await sampleResponse.arrayBuffer());
+      return { note, buffer };
+    }));
+  };
+
+  return {
+    id,
+    name,
+    legato: false,
+    load: (context) => {
+      if (!loading.has(context)) {
+        const promise = fetchSamples(context).then(samples => {
+          loaded.set(context, samples);
+          return samples;
+        });
+        // Let a failed load be retried
+        promise.catch(() => loading.delete(context));
+        loading.set(context, promise);
+      }
+      return loading.get(context)!.then(() => undefined);
+    },
+    createVoice: (context, destination, options) => {
+      const samples = loaded.get(context);
+      if (!samples) {
+        throw new Error(`${name} samples have not been loaded`);
+      }
+      return new SampleVoice(context, destination, options, samples);
+    }
+  };
+};
+
+export const INSTRUMENT_PRESETS: Record<InstrumentId, InstrumentPreset> = {
+  vocal: {
+    id: 'vocal',
+    name: 'Choir',
+    legato: true,
+    createVoice: (context, destination, options) => new VocalVoice(context, destination, options)
+  },
+  organ: {
+    id: 'organ',
+    name: 'Organ',
+    legato: true,
+    createVoice: (context, destination, options) => new OrganVoice(context, destination, options)
+  },
+  strings: {
+    id: 'strings',
+    name: 'String Pad',
+    legato: true,
+    createVoice: (context, destination, options) => new StringPadVoice(context, destination, options)
+  },
+  fmBell: {
+    id: 'fmBell',
+    name: 'FM Bell',
+    legato: false,
+    createVoice: (context, destination, options) => new FmBellVoice(context, destination, options)
+  },
+  marimba: createSamplerPreset('marimba', 'Marimba', '/samples/marimba')
+};
+
+export type InstrumentSelection = Record<VoiceType, InstrumentId>;
+
+export const DEFAULT_INSTRUMENTS: InstrumentSelection = {
+  soprano: 'vocal',
+  alto: 'vocal',
+  tenor: 'vocal',
+  bass: 'vocal'
+};
+
+const INSTRUMENT_STORAGE_KEY = 'choir-instruments';
+
+// Saved per-part choices, falling back to the choir for anything missing or unknown
+export const loadInstrumentSelection = (): InstrumentSelection => {
+  const selection = { ...DEFAULT_INSTRUMENTS };
+  if (typeof window === 'undefined') return selection;
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(INSTRUMENT_STORAGE_KEY) ?? '{}');
+    (Object.keys(selection) as VoiceType[]).forEach(part => {
+      if (saved[part] in INSTRUMENT_PRESETS) {
+        selection[part] = saved[part];
+      }
+    });
+  } catch (error) {
+    console.warn('Ignoring saved instruments:', error);
+  }
+
+  return selection;
+};
+
+export const saveInstrumentSelection = (selection: InstrumentSelection): void => {
+  try {
+    window.localStorage.setItem(INSTRUMENT_STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.warn('Could not save instruments:', error);
+  }
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { HandTrackingResult, Handedness } from '../types/handTracking';
+import { LandmarkFilter, OneEuroFilter } from './landmarkFilter';
+import { FRAME_MS, makeJitter, mean, variance } from './testSignals';
+
+const JITTER = 0.01; // Roughly what the tracker shows on a hand held still, in normalized coordinates
+
+describe('OneEuroFilter', () => {
+  it('steadies a jittered constant', () => {
+    const jitter = makeJitter();
+    const filter = new OneEuroFilter();
+    const input: number[] = [];
+    const output: number[] = [];
+
+    for (let frame = 0; frame < 300; frame++) {
+      const value = 0.5 + jitter(JITTER);
+      input.push(value);
+      output.push(filter.filter(value, frame * FRAME_MS));
+    }
+
+    // Skip the first second while the filter settles
+    expect(variance(output.slice(30))).toBeLessThan(variance(input.slice(30)) / 4);
+    expect(mean(output.slice(30))).toBeCloseTo(0.5, 2);
+  });
+
+  it('follows a jittered ramp with less noise and little lag', () => {
+    const jitter = makeJitter(7);
+    const filter = new OneEuroFilter();
+    const speed = 0.5; // Normalized units per second: half the frame in a second
+    const inputError: number[] = [];
+    const outputError: number[] = [];
+
+    for (let frame = 0; frame < 60; frame++) {
+      const time = frame * FRAME_MS;
+      const truth = 0.2 + speed * time / 1000;
+      const value = truth + jitter(JITTER);
+      const filtered = filter.filter(value, time);
+      if (frame >= 15) {
+        inputError.push(value - truth);
+        outputError.push(filtered - truth);
+      }
+    }
+
+    expect(variance(outputError)).toBeLessThan(variance(inputError));
+    // Lag stays within a couple of frames of travel
+    expect(Math.abs(mean(outputError))).toBeLessThan(2 * speed * FRAME_MS / 1000);
+  });
+
+  it('passes the first reading and repeated timestamps straight through', () => {
+    const filter = new OneEuroFilter();
+
+    expect(filter.filter(0.3, 0)).toBe(0.3);
+    expect(filter.filter(0.9, 0)).toBe(0.3);
+    filter.reset();
+    expect(filter.filter(0.9, 10)).toBe(0.9);
+  });
+});
+
+describe('LandmarkFilter', () => {
+  const makeResult = (
+    timestamp: number,
+    hands: Array<{ handedness: Handedness; at: number }>,
+    jitter: (amount: number) => number
+  ): HandTrackingResult => ({
+    timestamp,
+    hands: hands.map(({ handedness, at }) => ({
+      landmarks: Array.from({ length: 21 }, () => ({
+        x: at + jitter(JITTER),
+        y: at + jitter(JITTER),
+        z: jitter(JITTER)
+      })),
+      worldLandmarks: [],
+      handedness,
+      handednessScore: 1
+    }))
+  });
+
+  it('steadies every coordinate of a jittered hand', () => {
+    const jitter = makeJitter(3);
+    const filter = new LandmarkFilter();
+    const input: number[] = [];
+    const output: number[] = [];
+
+    for (let frame = 0; frame < 200; frame++) {
+      const raw = makeResult(frame * FRAME_MS, [{ handedness: 'Left', at: 0.4 }], jitter);
+      const filtered = filter.filter(raw);
+      if (frame >= 30) {
+        input.push(raw.hands[0].landmarks[8].x, raw.hands[0].landmarks[0].y);
+        output.push(filtered.hands[0].landmarks[8].x, filtered.hands[0].landmarks[0].y);
+      }
+    }
+
+    expect(variance(output)).toBeLessThan(variance(input) / 4);
+  });
+
+  it('steadies the world landmarks the hand shape is read from', () => {
+    const jitter = makeJitter(11);
+    const filter = new LandmarkFilter();
+    const input: number[] = [];
+    const output: number[] = [];
+
+    for (let frame = 0; frame < 200; frame++) {
+      const raw = makeResult(frame * FRAME_MS, [{ handedness: 'Left', at: 0.4 }], jitter);
+      // A hand held still, in metres around its centre: a few millimetres of jitter on a 10 cm hand
+      raw.hands[0].worldLandmarks = Array.from({ length: 21 }, (_, i) => ({
+        x: (i % 5) * 0.02 + jitter(0.003),
+        y: -Math.floor(i / 5) * 0.025 + jitter(0.003),
+        z: jitter(0.003)
+      }));
+      const filtered = filter.filter(raw);
+      if (frame >= 30) {
+        input.push(raw.hands[0].worldLandmarks[8].x);
+        output.push(filtered.hands[0].worldLandmarks[8].x);
+      }
+    }
+
+    expect(variance(output)).toBeLessThan(variance(input) / 4);
+  });
+
+  it('keeps each hand separate', () => {
+    const jitter = makeJitter(5);
+    const filter = new LandmarkFilter();
+    let filtered: HandTrackingResult | null = null;
+
+    for (let frame = 0; frame < 60; frame++) {
+      filtered = filter.filter(makeResult(frame * FRAME_MS, [
+        { handedness: 'Left', at: 0.2 },
+        { handedness: 'Right', at: 0.8 }
+      ], jitter));
+    }
+
+    expect(filtered!.hands[0].landmarks[8].x).toBeCloseTo(0.2, 1);
+    expect(filtered!.hands[1].landmarks[8].x).toBeCloseTo(0.8, 1);
+  });
+
+  it('starts afresh when a hand comes back', () => {
+    const noJitter = () => 0;
+    const filter = new LandmarkFilter();
+
+    for (let frame = 0; frame < 30; frame++) {
+      filter.filter(makeResult(frame * FRAME_MS, [{ handedness: 'Left', at: 0.2 }], noJitter));
+    }
+    filter.filter(makeResult(30 * FRAME_MS, [], noJitter));
+    const back = filter.filter(makeResult(31 * FRAME_MS, [{ handedness: 'Left', at: 0.8 }], noJitter));
+
+    // No smoothing from where the hand used to be
+    expect(back.hands[0].landmarks[8].x).toBe(0.8);
+  });
+});
@@ -0,0 +1,123 @@
+// Smooths tracked landmarks so a hand held still reads as still, without lagging a hand on the move
+import { HandLandmark, HandTrackingResult, Handedness, TrackedHand } from '../types/handTracking';
+
+export interface OneEuroFilterOptions {
+  minCutoff?: number; // Hz; lower removes more jitter from a slow hand
+  beta?: number;      // How quickly the cutoff opens up with speed; higher lags less on fast moves
+  dCutoff?: number;   // Hz; cutoff for the speed estimate itself
+}
+
+const smoothingFactor = (cutoff: number, elapsed: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsed);
+};
+
+// One Euro filter (Casiez, Roussel & Vogel, CHI 2012): a low-pass whose cutoff follows the speed
+export class OneEuroFilter {
+  private minCutoff: number;
+  private beta: number;
+  private dCutoff: number;
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime = 0;
+
+  constructor(options: OneEuroFilterOptions = {}) {
+    this.minCutoff = options.minCutoff ?? 1;
+    this.beta = options.beta ?? 5; // Suits normalized 0-1 coordinates; pixel coordinates want far less
+    this.dCutoff = options.dCutoff ?? 1;
+  }
+
+  // Add a reading taken at `time` (ms) and get the smoothed value
+  filter(value: number, time: number): number {
+    if (this.value === null || time <= this.lastTime) {
+      // First reading, or a repeated timestamp: nothing to measure speed against
+      this.value ??= value;
+      this.lastTime = time;
+      return this.value;
+    }
+
+    const elapsed = (time - this.lastTime) / 1000;
+    this.lastTime = time;
+
+    const speed = (value - this.value) / elapsed;
+    this.derivative += smoothingFactor(this.dCutoff, elapsed) * (speed - this.derivative);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, elapsed) * (value - this.value);
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTime = 0;
+  }
+}
+
+const filterPoints = (points: HandLandmark[], filters: OneEuroFilter[], time: number): HandLandmark[] => {
+  return points.map((point, index) => ({
+    x: filters[index * 3].filter(point.x, time),
+    y: filters[index * 3 + 1].filter(point.y, time),
+    z: filters[index * 3 + 2].filter(point.z, time)
+  }));
+};
+
+// Filters for one hand: screen and world landmarks move on different scales, so each has its own
+interface FilterBank {
+  landmarks: OneEuroFilter[];
+  worldLandmarks: OneEuroFilter[];
+}
+
+// One filter per coordinate of every landmark, screen and world alike, kept per hand so two hands
+// never share state
+export class LandmarkFilter {
+  private options: OneEuroFilterOptions;
+  private hands: Map<Handedness, FilterBank> = new Map();
+
+  constructor(options: OneEuroFilterOptions = {}) {
+    this.options = options;
+  }
+
+  filter(result: HandTrackingResult): HandTrackingResult {
+    const seen = new Set(result.hands.map(hand => hand.handedness));
+    // A hand that left the frame starts afresh when it comes back
+    this.hands.forEach((_, handedness) => {
+      if (!seen.has(handedness)) this.hands.delete(handedness);
+    });
+
+    return {
+      ...result,
+      hands: result.hands.map(hand => this.filterHand(hand, result.timestamp))
+    };
+  }
+
+  reset(): void {
+    this.hands.clear();
+  }
+
+  private filterHand(hand: TrackedHand, time: number): TrackedHand {
+    let bank = this.hands.get(hand.handedness);
+    if (
+      !bank ||
+      bank.landmarks.length !== hand.landmarks.length * 3 ||
+      bank.worldLandmarks.length !== hand.worldLandmarks.length * 3
+    ) {
+      bank = {
+        landmarks: this.makeFilters(hand.landmarks.length),
+        worldLandmarks: this.makeFilters(hand.worldLandmarks.length)
+      };
+      this.hands.set(hand.handedness, bank);
+    }
+
+    return {
+      ...hand,
+      landmarks: filterPoints(hand.landmarks, bank.landmarks, time),
+      // Hand shape is classified from these, so they need the same steadying as the screen position
+      worldLandmarks: filterPoints(hand.worldLandmarks, bank.worldLandmarks, time)
+    };
+  }
+
+  private makeFilters(count: number): OneEuroFilter[] {
+    return Array.from({ length: count * 3 }, () => new OneEuroFilter(this.options));
+  }
+}
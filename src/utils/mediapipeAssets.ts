@@ -0,0 +1,8 @@
+// Where the hand tracker's scripts, wasm and models are served from.
+// scripts/copy-mediapipe-assets.mjs copies them from node_modules into public/mediapipe on install;
+// NEXT_PUBLIC_MEDIAPIPE_BASE_URL points elsewhere, e.g. a CDN or a stage rig's own file server.
+export const MEDIAPIPE_BASE_URL = (process.env.NEXT_PUBLIC_MEDIAPIPE_BASE_URL || '/mediapipe').replace(/\/+$/, '');
+
+export const getTasksVisionAssetUrl = (path: string): string => `${MEDIAPIPE_BASE_URL}/tasks-vision/${path}`;
+
+export const HAND_LANDMARKER_MODEL_URL = `${MEDIAPIPE_BASE_URL}/models/hand_landmarker.task`;
@@ -0,0 +1,150 @@
+// Public-domain melodies for trying the harmonizer without a camera
+import { MelodyExample } from '../types/harmonizer';
+
+export const MELODY_EXAMPLES: MelodyExample[] = [
+  // Classical
+  {
+    id: 'ode-to-joy',
+    title: 'Ode to Joy',
+    description: 'Beethoven, Symphony No. 9 (1824). Stepwise motion in C major.',
+    melody: [
+      64, 64, 65, 67, 67, 65, 64, 62, 60, 60, 62, 64, 64, 62, 62,
+      64, 64, 65, 67, 67, 65, 64, 62, 60, 60, 62, 64, 62, 60, 60
+    ],
+    difficulty: 'easy',
+    genre: 'classical'
+  },
+  {
+    id: 'minuet-in-g',
+    title: 'Minuet in G',
+    description: 'Petzold, from the Notebook for Anna Magdalena Bach (1725).',
+    melody: [
+      74, 67, 69, 71, 72, 74, 67, 67, 76, 72, 74, 76, 78, 79, 67, 67,
+      72, 74, 72, 71, 69, 71, 72, 71, 69, 67, 66, 67, 69, 71, 67, 69
+    ],
+    difficulty: 'medium',
+    genre: 'classical'
+  },
+  {
+    id: 'fur-elise',
+    title: 'Für Elise',
+    description: 'Beethoven (1810). Chromatic neighbour tones over A minor.',
+    melody: [
+      76, 75, 76, 75, 76, 71, 74, 72, 69, 60, 64, 69, 71, 64, 68, 71, 72,
+      64, 76, 75, 76, 75, 76, 71, 74, 72, 69, 60, 64, 69, 71, 64, 72, 71, 69
+    ],
+    difficulty: 'hard',
+    genre: 'classical'
+  },
+
+  // Folk
+  {
+    id: 'twinkle-twinkle',
+    title: 'Twinkle, Twinkle, Little Star',
+    description: 'French folk tune "Ah! vous dirai-je, maman" (1761).',
+    melody: [
+      60, 60, 67, 67, 69, 69, 67, 65, 65, 64, 64, 62, 62, 60,
+      67, 67, 65, 65, 64, 64, 62, 67, 67, 65, 65, 64, 64, 62,
+      60, 60, 67, 67, 69, 69, 67, 65, 65, 64, 64, 62, 62, 60
+    ],
+    difficulty: 'easy',
+    genre: 'folk'
+  },
+  {
+    id: 'scarborough-fair',
+    title: 'Scarborough Fair',
+    description: 'Traditional English ballad in the Dorian mode.',
+    melody: [
+      62, 62, 69, 69, 64, 65, 64, 62, 69, 72, 74, 72, 69, 71, 67, 69,
+      74, 74, 74, 72, 69, 69, 67, 65, 64, 62, 60, 62, 69, 67, 65, 64, 62, 60, 62
+    ],
+    difficulty: 'medium',
+    genre: 'folk'
+  },
+  {
+    id: 'greensleeves',
+    title: 'Greensleeves',
+    description: 'Traditional English tune (16th century) with a raised leading tone.',
+    melody: [
+      69, 72, 74, 76, 77, 76, 74, 71, 67, 69, 71, 72, 69, 69, 68, 69, 71, 68, 64,
+      69, 72, 74, 76, 77, 76, 74, 71, 67, 69, 71, 72, 71, 69, 68, 66, 68, 69, 69
+    ],
+    difficulty: 'hard',
+    genre: 'folk'
+  },
+
+  // Pop
+  {
+    id: 'happy-birthday',
+    title: 'Happy Birthday',
+    description: 'Hill sisters, "Good Morning to All" (1893).',
+    melody: [
+      67, 67, 69, 67, 72, 71, 67, 67, 69, 67, 74, 72,
+      67, 67, 79, 76, 72, 71, 69, 77, 77, 76, 72, 74, 72
+    ],
+    difficulty: 'easy',
+    genre: 'pop'
+  },
+  {
+    id: 'oh-susanna',
+    title: 'Oh! Susanna',
+    description: 'Stephen Foster (1848), a hit of its day.',
+    melody: [
+      60, 62, 64, 67, 67, 69, 67, 64, 60, 62, 64, 64, 62, 60, 62,
+      60, 62, 64, 67, 67, 69, 67, 64, 60, 62, 64, 64, 62, 62, 60
+    ],
+    difficulty: 'medium',
+    genre: 'pop'
+  },
+  {
+    id: 'take-me-out',
+    title: 'Take Me Out to the Ball Game',
+    description: 'Von Tilzer (1908). Waltz with wide leaps and a chromatic turn.',
+    melody: [
+      60, 72, 69, 67, 64, 67, 62, 60, 72, 69, 67, 64, 67,
+      69, 68, 69, 64, 65, 67, 69, 65, 62,
+      69, 69, 69, 71, 72, 74, 71, 69, 67, 64, 62, 60
+    ],
+    difficulty: 'hard',
+    genre: 'pop'
+  },
+
+  // Jazz
+  {
+    id: 'when-the-saints',
+    title: 'When the Saints Go Marching In',
+    description: 'Traditional spiritual, a New Orleans jazz standard.',
+    melody: [
+      60, 64, 65, 67, 60, 64, 65, 67, 60, 64, 65, 67, 64, 60, 64, 62,
+      64, 64, 62, 60, 60, 64, 67, 67, 65, 64, 65, 67, 64, 60, 62, 60
+    ],
+    difficulty: 'easy',
+    genre: 'jazz'
+  },
+  {
+    id: 'swing-low',
+    title: 'Swing Low, Sweet Chariot',
+    description: 'Traditional spiritual on the pentatonic scale.',
+    melody: [
+      64, 60, 64, 64, 60, 57, 55, 60, 60, 60, 60, 64, 67, 64, 62,
+      64, 60, 64, 64, 60, 57, 55, 60, 60, 62, 64, 62, 60
+    ],
+    difficulty: 'medium',
+    genre: 'jazz'
+  },
+  {
+    id: 'the-entertainer',
+    title: 'The Entertainer',
+    description: 'Scott Joplin (1902). Syncopated ragtime with chromatic pickups.',
+    melody: [
+      62, 63, 64, 72, 64, 72, 64, 72, 72, 74, 75, 76, 72, 74, 76, 71, 74, 72,
+      62, 63, 64, 72, 64, 72, 64, 72, 69, 67, 66, 69, 72, 76, 74, 72, 69, 74
+    ],
+    difficulty: 'hard',
+    genre: 'jazz'
+  }
+];
+
+export const getMelodyExample = (id: string): MelodyExample | undefined => {
+  return MELODY_EXAMPLES.find(example => example.id === id);
+};
@@ -0,0 +1,132 @@
+import { createRequire } from 'module';
+import { describe, expect, it } from 'vitest';
+import { PitchDetectorOptions, PitchQuantizer, frequencyToMidi } from './micPitch';
+import { makeJitter } from './testSignals';
+
+// The worklet is plain JS served from public/; it exports the detector when loaded under Node
+const { detectPitch } = createRequire(import.meta.url)('../../public/pitch/pitchworklet.js') as {
+  detectPitch: (
+    buffer: Float32Array,
+    sampleRate: number,
+    options?: PitchDetectorOptions
+  ) => { frequency: number; clarity: number } | null;
+};
+
+const SAMPLE_RATE = 48000;
+const WINDOW_SIZE = 2048;
+
+const sine = (frequency: number, amplitude = 0.5) =>
+  Float32Array.from({ length: WINDOW_SIZE }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+
+// A sung-vowel stand-in: many harmonics, with the third louder than the fundamental
+const vocal = (frequency: number) => {
+  const harmonics = [0.6, 0.5, 1, 0.7, 0.3, 0.25, 0.15, 0.1, 0.08, 0.05];
+  return Float32Array.from({ length: WINDOW_SIZE }, (_, i) => 0.2 * harmonics.reduce(
+    (sum, amplitude, h) => sum + amplitude * Math.sin(2 * Math.PI * frequency * (h + 1) * i / SAMPLE_RATE + h),
+    0
+  ));
+};
+
+// Deterministic white noise
+const noise = (amplitude: number) => {
+  const jitter = makeJitter(12345);
+  return Float32Array.from({ length: WINDOW_SIZE }, () => jitter(amplitude));
+};
+
+const cents = (detected: number, expected: number) => 1200 * Math.log2(detected / expected);
+
+describe('detectPitch', () => {
+  it.each([70, 82.4, 110, 196, 261.6, 440, 659.3, 880, 1100])('finds a %f Hz sine within 5 cents', frequency => {
+    const pitch = detectPitch(sine(frequency), SAMPLE_RATE);
+
+    expect(pitch).not.toBeNull();
+    expect(Math.abs(cents(pitch!.frequency, frequency))).toBeLessThan(5);
+    expect(pitch!.clarity).toBeGreaterThan(0.9);
+  });
+
+  it.each([110, 220, 330])('finds the fundamental of a harmonic-rich %f Hz voice', frequency => {
+    const pitch = detectPitch(vocal(frequency), SAMPLE_RATE);
+
+    expect(pitch).not.toBeNull();
+    expect(Math.abs(cents(pitch!.frequency, frequency))).toBeLessThan(10);
+  });
+
+  it('returns null for silence', () => {
+    expect(detectPitch(new Float32Array(WINDOW_SIZE), SAMPLE_RATE)).toBeNull();
+    expect(detectPitch(sine(440, 0.005), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('returns null for noise', () => {
+    expect(detectPitch(noise(0.5), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('returns null below the lowest frequency it looks for', () => {
+    expect(detectPitch(sine(50), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('PitchQuantizer', () => {
+  const frame = (midi: number, clarity = 0.95) => ({ frequency: 440 * Math.pow(2, (midi - 69) / 12), clarity });
+  const unvoiced = { frequency: null, clarity: 0 };
+
+  it('converts frequency to MIDI', () => {
+    expect(frequencyToMidi(440)).toBeCloseTo(69);
+    expect(frequencyToMidi(261.6256)).toBeCloseTo(60);
+  });
+
+  it('accepts a note only after it has held for minStableFrames', () => {
+    const quantizer = new PitchQuantizer({ minStableFrames: 3 });
+
+    expect(quantizer.push(frame(60.1))).toBeNull();
+    expect(quantizer.push(frame(59.9))).toBeNull();
+    expect(quantizer.push(frame(60.2))).toBe(60);
+  });
+
+  it('restarts the count when the candidate changes', () => {
+    const quantizer = new PitchQuantizer({ minStableFrames: 3 });
+
+    quantizer.push(frame(60));
+    quantizer.push(frame(60));
+    expect(quantizer.push(frame(62))).toBeNull();
+    quantizer.push(frame(62));
+    expect(quantizer.push(frame(62))).toBe(62);
+  });
+
+  it('holds the note through wobble inside the hysteresis margin', () => {
+    const quantizer = new PitchQuantizer({ hysteresis: 0.3, minStableFrames: 1 });
+    quantizer.push(frame(60));
+
+    // Past the halfway point but within 0.5 + 0.3 semitones
+    [60.6, 59.3, 60.75, 59.25].forEach(midi => expect(quantizer.push(frame(midi))).toBe(60));
+  });
+
+  it('moves once the pitch clears the margin and settles', () => {
+    const quantizer = new PitchQuantizer({ hysteresis: 0.3, minStableFrames: 2 });
+    quantizer.push(frame(60));
+    quantizer.push(frame(60));
+
+    expect(quantizer.push(frame(60.9))).toBe(60);
+    expect(quantizer.push(frame(61))).toBe(61);
+  });
+
+  it('ignores unclear frames and releases after releaseFrames unvoiced frames', () => {
+    const quantizer = new PitchQuantizer({ minStableFrames: 1, releaseFrames: 3, minClarity: 0.8 });
+    quantizer.push(frame(67));
+
+    expect(quantizer.push(frame(72, 0.5))).toBe(67);
+    expect(quantizer.push(unvoiced)).toBe(67);
+    expect(quantizer.push(unvoiced)).toBeNull();
+    expect(quantizer.current).toBeNull();
+  });
+
+  it('keeps the note when a voiced frame interrupts the release count', () => {
+    const quantizer = new PitchQuantizer({ minStableFrames: 1, releaseFrames: 3 });
+    quantizer.push(frame(67));
+
+    quantizer.push(unvoiced);
+    quantizer.push(unvoiced);
+    quantizer.push(frame(67));
+    quantizer.push(unvoiced);
+    expect(quantizer.push(unvoiced)).toBe(67);
+  });
+});
@@ -0,0 +1,150 @@
+// Microphone pitch tracking: YIN runs in an AudioWorklet, the main thread turns
+// its frames into steady MIDI notes for the harmonizer
+
+export const PITCH_WORKLET_URL = '/pitch/pitchworklet.js';
+const PITCH_PROCESSOR_NAME = 'pitch-detector';
+
+// One analysis window from the worklet (a frame every ~10 ms at 48 kHz)
+export interface PitchFrame {
+  frequency: number | null; // Hz, null when unvoiced or silent
+  clarity: number; // 0-1, how periodic the window was
+  rms: number;
+  time: number; // audio context time
+}
+
+export interface PitchDetectorOptions {
+  threshold?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+  minRms?: number;
+}
+
+export interface PitchQuantizerOptions {
+  hysteresis?: number; // semitones past the halfway point before leaving the held note
+  minStableFrames?: number; // frames a new note must persist before it is accepted
+  releaseFrames?: number; // unvoiced frames before the held note is let go
+  minClarity?: number;
+}
+
+// Fractional MIDI note number, 69 = A4
+export const frequencyToMidi = (frequency: number): number => {
+  return 69 + 12 * Math.log2(frequency / 440);
+};
+
+// Sung pitch wobbles and scoops; only report a note once it has settled
+export class PitchQuantizer {
+  private hysteresis: number;
+  private minStableFrames: number;
+  private releaseFrames: number;
+  private minClarity: number;
+  private note: number | null = null;
+  private candidate: number | null = null;
+  private candidateFrames = 0;
+  private unvoicedFrames = 0;
+
+  constructor({ hysteresis = 0.3, minStableFrames = 3, releaseFrames = 8, minClarity = 0.8 }: PitchQuantizerOptions = {}) {
+    this.hysteresis = hysteresis;
+    this.minStableFrames = minStableFrames;
+    this.releaseFrames = releaseFrames;
+    this.minClarity = minClarity;
+  }
+
+  get current(): number | null {
+    return this.note;
+  }
+
+  // Feed one frame; returns the held note (or null for silence)
+  push(frame: Pick<PitchFrame, 'frequency' | 'clarity'>): number | null {
+    if (frame.frequency === null || frame.clarity < this.minClarity) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      if (++this.unvoicedFrames >= this.releaseFrames) this.note = null;
+      return this.note;
+    }
+    this.unvoicedFrames = 0;
+
+    const midi = frequencyToMidi(frame.frequency);
+    if (this.note !== null && Math.abs(midi - this.note) < 0.5 + this.hysteresis) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return this.note;
+    }
+
+    const nearest = Math.round(midi);
+    if (nearest === this.candidate) {
+      this.candidateFrames++;
+    } else {
+      this.candidate = nearest;
+      this.candidateFrames = 1;
+    }
+    if (this.candidateFrames >= this.minStableFrames) {
+      this.note = nearest;
+      this.candidate = null;
+      this.candidateFrames = 0;
+    }
+    return this.note;
+  }
+
+  reset(): void {
+    this.note = null;
+    this.candidate = null;
+    this.candidateFrames = 0;
+    this.unvoicedFrames = 0;
+  }
+}
+
+// Owns the microphone stream and the worklet; frames arrive through the callback
+export class MicPitchInput {
+  private context: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private node: AudioWorkletNode | null = null;
+
+  get isRunning(): boolean {
+    return this.context !== null;
+  }
+
+  async start(onFrame: (frame: PitchFrame) => void, options: PitchDetectorOptions = {}): Promise<void> {
+    if (this.context) return;
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      throw new Error('Microphone input is not supported in this browser');
+    }
+
+    // Echo cancellation keeps the backing choir out of the detector; level processing would skew it
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: false }
+    });
+    const context = new AudioContext();
+
+    try {
+      await context.audioWorklet.addModule(PITCH_WORKLET_URL);
+      const node = new AudioWorkletNode(context, PITCH_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        processorOptions: options
+      });
+      node.port.onmessage = (event: MessageEvent<PitchFrame>) => onFrame(event.data);
+      context.createMediaStreamSource(stream).connect(node);
+
+      this.stream = stream;
+      this.context = context;
+      this.node = node;
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      await context.close();
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const context = this.context;
+    if (!context) return;
+
+    this.node?.port.close();
+    this.node?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.node = null;
+    this.stream = null;
+    this.context = null;
+    await context.close();
+  }
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { HarmonizerNote, HarmonySequence } from '../types/harmonizer';
+import { sequenceToMidi, TICKS_PER_QUARTER } from './midiExport';
+
+interface ParsedEvent {
+  tick: number;
+  status: number;
+  data: number[];
+}
+
+interface ParsedTrack {
+  name: string;
+  deltas: number[];
+  events: ParsedEvent[];
+}
+
+const readText = (bytes: Uint8Array, start: number, length: number) =>
+  new TextDecoder().decode(bytes.slice(start, start + length));
+
+const readUint32 = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+const readUint16 = (bytes: Uint8Array, at: number) => (bytes[at] << 8) | bytes[at + 1];
+
+// Just enough of a Standard MIDI File reader for what the exporter writes (no running status)
+const parseMidi = (bytes: Uint8Array) => {
+  expect(readText(bytes, 0, 4)).toBe('MThd');
+  expect(readUint32(bytes, 4)).toBe(6);
+  const format = readUint16(bytes, 8);
+  const trackCount = readUint16(bytes, 10);
+  const division = readUint16(bytes, 12);
+
+  const tracks: ParsedTrack[] = [];
+  let at = 14;
+  for (let t = 0; t < trackCount; t++) {
+    expect(readText(bytes, at, 4)).toBe('MTrk');
+    const end = at + 8 + readUint32(bytes, at + 4);
+    at += 8;
+
+    const track: ParsedTrack = { name: '', deltas: [], events: [] };
+    let tick = 0;
+    const readVariableLength = () => {
+      let value = 0;
+      let byte;
+      do {
+        byte = bytes[at++];
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80);
+      return value;
+    };
+
+    while (at < end) {
+      const delta = readVariableLength();
+      track.deltas.push(delta);
+      tick += delta;
+      const status = bytes[at++];
+
+      if (status === 0xff) {
+        const type = bytes[at++];
+        const length = readVariableLength();
+        if (type === 0x03) track.name = readText(bytes, at, length);
+        at += length;
+      } else {
+        const dataLength = (status & 0xf0) === 0xc0 ? 1 : 2;
+        track.events.push({ tick, status, data: Array.from(bytes.slice(at, at + dataLength)) });
+        at += dataLength;
+      }
+    }
+    expect(at).toBe(end);
+    tracks.push(track);
+  }
+
+  return { format, division, tracks };
+};
+
+const note = (midiNote: number, tie = false): HarmonizerNote => ({ midiNote, tie, probability: 1 });
+
+const makeSequence = (timestamps: number[], sopranoTies: boolean[] = []): HarmonySequence => ({
+  id: 'test',
+  title: 'Test',
+  melody: timestamps.map((timestamp, i) => ({ midiNote: 72 + i, noteName: '', timestamp })),
+  harmonies: timestamps.map((_, i) => ({
+    soprano: note(72, sopranoTies[i] ?? false),
+    alto: note(67 - i),
+    tenor: note(60 - i),
+    bass: note(48 - i)
+  })),
+  createdAt: new Date(0)
+});
+
+const noteOns = (track: ParsedTrack) => track.events.filter(event => (event.status & 0xf0) === 0x90);
+const noteOffs = (track: ParsedTrack) => track.events.filter(event => (event.status & 0xf0) === 0x80);
+
+// At 120 bpm a quarter note is 500 ms
+const msToTicks = (ms: number) => (ms / 500) * TICKS_PER_QUARTER;
+
+describe('sequenceToMidi', () => {
+  it('writes a type 1 file with a conductor track and one track per part', () => {
+    const { format, division, tracks } = parseMidi(sequenceToMidi(makeSequence([0, 500, 1000])));
+
+    expect(format).toBe(1);
+    expect(division).toBe(TICKS_PER_QUARTER);
+    expect(tracks.map(track => track.name)).toEqual(['Test', 'Melody', 'Soprano', 'Alto', 'Tenor', 'Bass']);
+    // Each part plays on its own channel
+    expect(tracks.slice(1).map(track => noteOns(track)[0].status & 0x0f)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('places note-ons at the melody timestamps', () => {
+    const timestamps = [1000, 1500, 2500, 2750];
+    const { tracks } = parseMidi(sequenceToMidi(makeSequence(timestamps), { bpm: 120 }));
+    const melody = tracks[1];
+
+    expect(noteOns(melody).map(event => event.tick)).toEqual(timestamps.map(time => msToTicks(time - timestamps[0])));
+    expect(noteOns(melody).map(event => event.data[0])).toEqual([72, 73, 74, 75]);
+    // Every note ends where the next begins; the last gets the default second
+    expect(noteOffs(melody).map(event => event.tick)).toEqual([480, 1440, 1680, 1680 + msToTicks(1000)]);
+  });
+
+  it('holds a tied same-pitch step instead of striking it again', () => {
+    const { tracks } = parseMidi(sequenceToMidi(makeSequence([0, 500, 1000], [false, true, true])));
+    const soprano = tracks[2];
+
+    expect(noteOns(soprano)).toHaveLength(1);
+    expect(noteOffs(soprano)).toHaveLength(1);
+    expect(noteOffs(soprano)[0].tick).toBe(msToTicks(2000));
+  });
+
+  it('re-strikes a same-pitch step that is not tied', () => {
+    const { tracks } = parseMidi(sequenceToMidi(makeSequence([0, 500, 1000])));
+
+    expect(noteOns(tracks[2]).map(event => event.tick)).toEqual([0, 480, 960]);
+  });
+
+  it('never moves a step earlier than the one before it', () => {
+    const { tracks } = parseMidi(sequenceToMidi(makeSequence([2000, 1000, 1500])));
+    const melody = tracks[1];
+
+    expect(melody.deltas[0]).toBe(0);
+    expect(noteOns(melody).map(event => event.tick)).toEqual([0, 0, 0]);
+    expect(noteOffs(melody).map(event => event.tick)).toEqual([1, 1, msToTicks(1000)]);
+  });
+});
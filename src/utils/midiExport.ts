@@ -0,0 +1,121 @@
+// Standard MIDI File (Type 1) export for harmonized sequences
+import { HarmonySequence } from '../types/harmonizer';
+import { getPartNotes, SEQUENCE_PARTS, SequencePart, TimelineOptions } from './sequenceTimeline';
+
+export const TICKS_PER_QUARTER = 480;
+
+export interface MidiExportOptions extends TimelineOptions {
+  bpm?: number;
+  velocity?: number;
+}
+
+// One channel and General MIDI program per part
+const PART_SETTINGS: Record<SequencePart, { name: string; channel: number; program: number }> = {
+  melody: { name: 'Melody', channel: 0, program: 53 },  // Voice Oohs
+  soprano: { name: 'Soprano', channel: 1, program: 52 }, // Choir Aahs
+  alto: { name: 'Alto', channel: 2, program: 52 },
+  tenor: { name: 'Tenor', channel: 3, program: 52 },
+  bass: { name: 'Bass', channel: 4, program: 52 }
+};
+
+interface TrackEvent {
+  tick: number;
+  order: number; // note-offs sort before note-ons on the same tick
+  bytes: number[];
+}
+
+const encodeVariableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let remaining = value >> 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+};
+
+const encodeText = (text: string): number[] => {
+  return Array.from(new TextEncoder().encode(text));
+};
+
+const uint32 = (value: number): number[] => [
+  (value >>> 24) & 0xff,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff
+];
+
+const uint16 = (value: number): number[] => [(value >> 8) & 0xff, value & 0xff];
+
+const buildTrackChunk = (events: TrackEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [];
+  let lastTick = 0;
+
+  sorted.forEach(event => {
+    data.push(...encodeVariableLength(event.tick - lastTick), ...event.bytes);
+    lastTick = event.tick;
+  });
+
+  // End of track
+  data.push(0x00, 0xff, 0x2f, 0x00);
+
+  return [...encodeText('MTrk'), ...uint32(data.length), ...data];
+};
+
+const metaEvent = (tick: number, type: number, payload: number[]): TrackEvent => ({
+  tick,
+  order: 0,
+  bytes: [0xff, type, ...encodeVariableLength(payload.length), ...payload]
+});
+
+export const sequenceToMidi = (
+  sequence: HarmonySequence,
+  options: MidiExportOptions = {}
+): Uint8Array<ArrayBuffer> => {
+  const bpm = options.bpm ?? 120;
+  const velocity = Math.max(1, Math.min(127, Math.round(options.velocity ?? 80)));
+  const microsecondsPerQuarter = Math.round(60000000 / bpm);
+  const msToTicks = (ms: number) => Math.round((ms / 1000) * (bpm / 60) * TICKS_PER_QUARTER);
+
+  // Conductor track: title and tempo
+  const conductor: TrackEvent[] = [
+    metaEvent(0, 0x03, encodeText(sequence.title)),
+    metaEvent(0, 0x51, [
+      (microsecondsPerQuarter >> 16) & 0xff,
+      (microsecondsPerQuarter >> 8) & 0xff,
+      microsecondsPerQuarter & 0xff
+    ]),
+    metaEvent(0, 0x58, [4, 2, 24, 8]) // 4/4
+  ];
+
+  const partTracks = SEQUENCE_PARTS.map(part => {
+    const { name, channel, program } = PART_SETTINGS[part];
+    const events: TrackEvent[] = [
+      metaEvent(0, 0x03, encodeText(name)),
+      { tick: 0, order: 0, bytes: [0xc0 | channel, program] }
+    ];
+
+    getPartNotes(sequence, part, options).forEach(note => {
+      const startTick = msToTicks(note.start);
+      const endTick = Math.max(startTick + 1, msToTicks(note.start + note.duration));
+      events.push(
+        { tick: startTick, order: 2, bytes: [0x90 | channel, note.midiNote, velocity] },
+        { tick: endTick, order: 1, bytes: [0x80 | channel, note.midiNote, 0] }
+      );
+    });
+
+    return events;
+  });
+
+  const tracks = [conductor, ...partTracks];
+  const header = [
+    ...encodeText('MThd'),
+    ...uint32(6),
+    ...uint16(1), // Type 1: simultaneous tracks
+    ...uint16(tracks.length),
+    ...uint16(TICKS_PER_QUARTER)
+  ];
+
+  return new Uint8Array([...header, ...tracks.flatMap(buildTrackChunk)]);
+};
@@ -0,0 +1,88 @@
+// Web MIDI input: note messages from a keyboard, reduced to a single melody line
+
+// The part of MIDIInput the listener uses, so a mock can stand in for a device
+export interface MidiInputLike {
+  addEventListener(type: 'midimessage', listener: (event: MIDIMessageEvent) => void): void;
+  removeEventListener(type: 'midimessage', listener: (event: MIDIMessageEvent) => void): void;
+}
+
+export interface MidiNoteMessage {
+  type: 'noteOn' | 'noteOff';
+  channel: number; // 0-15
+  note: number;
+  velocity: number; // 0-127
+}
+
+export interface MidiNoteHandlers {
+  onNoteOn: (note: number, velocity: number) => void;
+  onNoteOff: (note: number) => void;
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+
+// Note on/off messages; everything else (CCs, clock, sysex...) gives null
+export const parseMidiNoteMessage = (data: Uint8Array | number[] | null): MidiNoteMessage | null => {
+  if (!data || data.length < 3) return null;
+
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const note = data[1] & 0x7f;
+  const velocity = data[2] & 0x7f;
+
+  if (status === NOTE_ON && velocity > 0) {
+    return { type: 'noteOn', channel, note, velocity };
+  }
+  // Note-on with velocity 0 is the common running-status way of sending note-off
+  if (status === NOTE_OFF || status === NOTE_ON) {
+    return { type: 'noteOff', channel, note, velocity };
+  }
+  return null;
+};
+
+// Returns a function that stops listening
+export const listenToMidiInput = (input: MidiInputLike, handlers: MidiNoteHandlers): (() => void) => {
+  const onMessage = (event: MIDIMessageEvent) => {
+    const message = parseMidiNoteMessage(event.data);
+    if (!message) return;
+
+    if (message.type === 'noteOn') {
+      handlers.onNoteOn(message.note, message.velocity);
+    } else {
+      handlers.onNoteOff(message.note);
+    }
+  };
+
+  input.addEventListener('midimessage', onMessage);
+  return () => input.removeEventListener('midimessage', onMessage);
+};
+
+export interface HeldNote {
+  note: number;
+  velocity: number;
+}
+
+// Last-note priority, as on a monophonic synth: releasing the top key falls back to the one below
+export class MonophonicNoteTracker {
+  private held: HeldNote[] = [];
+
+  get current(): HeldNote | null {
+    return this.held[this.held.length - 1] ?? null;
+  }
+
+  press(note: number, velocity: number): HeldNote {
+    this.held = this.held.filter(held => held.note !== note);
+    this.held.push({ note, velocity });
+    return this.current!;
+  }
+
+  // The note that should sound now, or null once every key is up
+  release(note: number): HeldNote | null {
+    this.held = this.held.filter(held => held.note !== note);
+    return this.current;
+  }
+
+  clear(): void {
+    this.held = [];
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { HarmonizerNote, HarmonyChord } from '../types/harmonizer';
+import { MidiOutputController, MidiOutputLike } from './midiOutput';
+
+// Records every message instead of sending it to a device
+const makeOutput = () => {
+  const sent: number[][] = [];
+  const output: MidiOutputLike = { send: (message) => { sent.push(Array.from(message)); } };
+  return { output, sent };
+};
+
+const note = (midiNote: number, tie = false): HarmonizerNote => ({ midiNote, tie, probability: 1 });
+
+const chord = (soprano: HarmonizerNote, alto = note(64), tenor = note(60), bass = note(48)): HarmonyChord =>
+  ({ soprano, alto, tenor, bass });
+
+const noteOns = (sent: number[][]) => sent.filter(([status]) => (status & 0xf0) === 0x90);
+const noteOffs = (sent: number[][]) => sent.filter(([status]) => (status & 0xf0) === 0x80);
+
+describe('MidiOutputController', () => {
+  it('starts each part on its own channel', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output, { velocity: 90 });
+
+    controller.playMelodyNote(72);
+    controller.playChord(chord(note(72)));
+
+    expect(sent).toEqual([
+      [0x90, 72, 90],
+      [0x91, 72, 90],
+      [0x92, 64, 90],
+      [0x93, 60, 90],
+      [0x94, 48, 90]
+    ]);
+  });
+
+  it('holds a tied part on the same pitch without striking it again', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output);
+
+    controller.playChord(chord(note(72)));
+    sent.length = 0;
+    controller.playChord(chord(note(72, true), note(65)));
+
+    // Soprano is tied: nothing on channel 2; alto moved: released and struck
+    expect(sent.filter(([status]) => (status & 0x0f) === 1)).toEqual([]);
+    expect(noteOffs(sent)).toEqual([[0x82, 64, 0], [0x83, 60, 0], [0x84, 48, 0]]);
+    expect(noteOns(sent).map(([status, midiNote]) => [status, midiNote])).toEqual([[0x92, 65], [0x93, 60], [0x94, 48]]);
+  });
+
+  it('strikes a tied part again when the pitch changes', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output);
+
+    controller.playChord(chord(note(72)));
+    sent.length = 0;
+    controller.playChord(chord(note(74, true)));
+
+    expect(sent.filter(([status]) => (status & 0x0f) === 1)).toEqual([[0x81, 72, 0], [0x91, 74, 100]]);
+  });
+
+  it('does not repeat a melody note that is already sounding', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output);
+
+    controller.playMelodyNote(72);
+    controller.playMelodyNote(72);
+
+    expect(sent).toHaveLength(1);
+  });
+
+  it('releases a part on its old channel when it is remapped', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output);
+
+    controller.playMelodyNote(72);
+    controller.setChannels({ melody: 9 });
+    controller.playMelodyNote(74);
+
+    expect(sent).toEqual([[0x90, 72, 100], [0x80, 72, 0], [0x99, 74, 100]]);
+  });
+
+  it('leaves parts that keep their channel sounding', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output);
+
+    controller.playMelodyNote(72);
+    sent.length = 0;
+    controller.setChannels({ melody: 0, bass: 7 });
+
+    expect(sent).toEqual([]);
+  });
+
+  it('rejects channels outside 0-15', () => {
+    const controller = new MidiOutputController(makeOutput().output);
+
+    expect(() => controller.setChannels({ alto: 16 })).toThrow(RangeError);
+    expect(controller.getChannels().alto).toBe(2);
+  });
+
+  it('releases everything with note-offs and All Notes Off on every channel in use', () => {
+    const { output, sent } = makeOutput();
+    const controller = new MidiOutputController(output, { channels: { tenor: 1 } });
+
+    controller.playMelodyNote(72);
+    controller.playChord(chord(note(76)));
+    sent.length = 0;
+    controller.releaseAll();
+
+    expect(noteOffs(sent)).toHaveLength(5);
+    expect(sent.filter(([status]) => (status & 0xf0) === 0xb0)).toEqual([
+      [0xb0, 123, 0],
+      [0xb1, 123, 0],
+      [0xb2, 123, 0],
+      [0xb4, 123, 0]
+    ]);
+    // Note-offs go out before All Notes Off
+    expect(sent.slice(0, 5)).toEqual(noteOffs(sent));
+  });
+
+  it('releases the old device before switching to a new one', () => {
+    const first = makeOutput();
+    const second = makeOutput();
+    const controller = new MidiOutputController(first.output);
+
+    controller.playMelodyNote(72);
+    controller.setOutput(second.output);
+    controller.playMelodyNote(72);
+
+    expect(noteOffs(first.sent)).toEqual([[0x80, 72, 0]]);
+    expect(second.sent).toEqual([[0x90, 72, 100]]);
+  });
+});
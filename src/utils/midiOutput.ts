@@ -0,0 +1,131 @@
+// Live Web MIDI output of the melody and the SATB parts
+import { HarmonyChord, VoiceType } from '../types/harmonizer';
+import { SEQUENCE_PARTS, SequencePart } from './sequenceTimeline';
+
+// The part of MIDIOutput the controller uses, so a mock can stand in for a device
+export type MidiOutputLike = Pick<MIDIOutput, 'send'>;
+
+export type MidiChannelMap = Record<SequencePart, number>; // 0-15
+
+// Same layout as the MIDI file export
+export const DEFAULT_MIDI_CHANNELS: MidiChannelMap = {
+  melody: 0,
+  soprano: 1,
+  alto: 2,
+  tenor: 3,
+  bass: 4
+};
+
+export interface MidiOutputOptions {
+  channels?: Partial<MidiChannelMap>;
+  velocity?: number; // 1-127
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const ALL_NOTES_OFF = 123;
+
+const VOICE_PARTS: VoiceType[] = ['soprano', 'alto', 'tenor', 'bass'];
+
+export class MidiOutputController {
+  private output: MidiOutputLike | null;
+  private channels: MidiChannelMap;
+  private velocity: number;
+  // Note each part is holding, with the channel it was started on
+  private sounding: Map<SequencePart, { note: number; channel: number }> = new Map();
+
+  constructor(output: MidiOutputLike | null = null, options: MidiOutputOptions = {}) {
+    this.output = output;
+    this.channels = { ...DEFAULT_MIDI_CHANNELS, ...options.channels };
+    this.velocity = options.velocity ?? 100;
+  }
+
+  get isConnected(): boolean {
+    return this.output !== null;
+  }
+
+  // Switching devices releases everything on the old one first
+  setOutput(output: MidiOutputLike | null): void {
+    if (output === this.output) return;
+    this.releaseAll();
+    this.output = output;
+  }
+
+  getChannels(): MidiChannelMap {
+    return { ...this.channels };
+  }
+
+  setChannels(changes: Partial<MidiChannelMap>): void {
+    (Object.keys(changes) as SequencePart[]).forEach(part => {
+      const channel = changes[part]!;
+      if (!Number.isInteger(channel) || channel < 0 || channel > 15) {
+        throw new RangeError(`MIDI channel for ${part} must be 0-15, got ${channel}`);
+      }
+    });
+
+    // Parts moving channel let go of their note on the old one
+    (Object.keys(changes) as SequencePart[]).forEach(part => {
+      if (changes[part] !== this.channels[part]) this.release(part);
+    });
+    this.channels = { ...this.channels, ...changes };
+  }
+
+  setVelocity(velocity: number): void {
+    this.velocity = Math.max(1, Math.min(127, Math.round(velocity)));
+  }
+
+  playMelodyNote(note: number): void {
+    if (this.sounding.get('melody')?.note === note) return;
+    this.play('melody', note);
+  }
+
+  // Tied parts keep holding their note; the others are struck again
+  playChord(chord: HarmonyChord): void {
+    VOICE_PARTS.forEach(part => {
+      const { midiNote, tie } = chord[part];
+      if (tie && this.sounding.get(part)?.note === midiNote) return;
+      this.play(part, midiNote);
+    });
+  }
+
+  releaseMelody(): void {
+    this.release('melody');
+  }
+
+  // Note-off for everything held, then All Notes Off on every channel in use
+  releaseAll(): void {
+    SEQUENCE_PARTS.forEach(part => this.release(part));
+
+    const channels = new Set(Object.values(this.channels));
+    channels.forEach(channel => this.send([CONTROL_CHANGE | channel, ALL_NOTES_OFF, 0]));
+  }
+
+  private play(part: SequencePart, note: number): void {
+    this.release(part);
+
+    const channel = this.channels[part];
+    this.send([NOTE_ON | channel, note & 0x7f, this.velocity]);
+    this.sounding.set(part, { note, channel });
+  }
+
+  private release(part: SequencePart): void {
+    const held = this.sounding.get(part);
+    if (!held) return;
+
+    this.send([NOTE_OFF | held.channel, held.note & 0x7f, 0]);
+    this.sounding.delete(part);
+  }
+
+  private send(message: number[]): void {
+    this.output?.send(message);
+  }
+}
+
+// Ask the browser for MIDI access; rejects where Web MIDI is unsupported or refused
+export const requestMidiAccess = async (): Promise<MIDIAccess> => {
+  if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+    throw new Error('Web MIDI is not supported in this browser');
+  }
+  return navigator.requestMIDIAccess();
+};
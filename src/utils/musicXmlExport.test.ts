@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { HarmonySequence, HarmonyChord, spellMidiNote } from '../types/harmonizer';
+import { sequenceToMusicXml } from './musicXmlExport';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+// Just enough of an XML reader for what the exporter writes: no CDATA, comments or entities inside tags
+const parseXml = (xml: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const body = xml.replace(/<\?[^>]*\?>/g, '').replace(/<!DOCTYPE[^>]*>/g, '');
+
+  for (const [, closing, name, attributes, selfClosing, text] of body.matchAll(/<(\/?)([\w-]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    if (text !== undefined) {
+      stack[stack.length - 1].text += text.trim();
+    } else if (closing) {
+      expect(stack.pop()!.name).toBe(name);
+    } else {
+      const element: XmlElement = {
+        name,
+        attributes: Object.fromEntries([...attributes.matchAll(/([\w-]+)="([^"]*)"/g)].map(([, key, value]) => [key, value])),
+        children: [],
+        text: ''
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  expect(stack).toHaveLength(1);
+  return root.children[0];
+};
+
+const child = (element: XmlElement, name: string) => element.children.find(candidate => candidate.name === name);
+const children = (element: XmlElement, name: string) => element.children.filter(candidate => candidate.name === name);
+const descendants = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.flatMap(candidate => [...(candidate.name === name ? [candidate] : []), ...descendants(candidate, name)]);
+
+interface ParsedNote {
+  pitch: string | null; // e.g. 'C#5', null for a rest
+  duration: number;
+  voice: number;
+  staff: number;
+  ties: string[];
+}
+
+const readNotes = (measure: XmlElement): ParsedNote[] => children(measure, 'note').map(note => {
+  const pitch = child(note, 'pitch');
+  const alter = pitch && child(pitch, 'alter') ? Number(child(pitch, 'alter')!.text) : 0;
+  return {
+    pitch: pitch
+      ? `${child(pitch, 'step')!.text}${alter === 1 ? '#' : alter === -1 ? 'b' : ''}${child(pitch, 'octave')!.text}`
+      : null,
+    duration: Number(child(note, 'duration')!.text),
+    voice: Number(child(note, 'voice')!.text),
+    staff: Number(child(note, 'staff')!.text),
+    ties: children(note, 'tie').map(tie => tie.attributes.type)
+  };
+});
+
+const chord = (soprano: number, alto: number, tenor: number, bass: number): HarmonyChord => {
+  const voice = (midiNote: number) => ({ midiNote, tie: false, probability: 1 });
+  return { soprano: voice(soprano), alto: voice(alto), tenor: voice(tenor), bass: voice(bass) };
+};
+
+const makeSequence = (timestamps: number[], harmonies: HarmonyChord[]): HarmonySequence => ({
+  id: 'test',
+  title: 'Test & <Friends>',
+  melody: timestamps.map((timestamp, i) => ({ midiNote: harmonies[i].soprano.midiNote, noteName: '', timestamp })),
+  harmonies,
+  createdAt: new Date(0)
+});
+
+// D minor at 120 bpm (a quarter is 500 ms, 4 divisions): the second chord starts on beat 4
+// and runs a half note, across the barline
+const D_MINOR = makeSequence([0, 1500, 2500], [
+  chord(74, 69, 65, 50), // D5 A4 F4 D3
+  chord(73, 69, 64, 45), // C#5 A4 E4 A2
+  chord(74, 69, 65, 50)
+]);
+
+describe('spellMidiNote', () => {
+  it('spells notes of the key signature with its accidentals', () => {
+    expect(spellMidiNote(60, 0)).toEqual({ step: 'C', alter: 0, octave: 4 });
+    expect(spellMidiNote(70, -1)).toEqual({ step: 'B', alter: -1, octave: 4 });
+    expect(spellMidiNote(66, 2)).toEqual({ step: 'F', alter: 1, octave: 4 });
+  });
+
+  it('raises the 6th and 7th of the relative minor in flat keys instead of flattening the note above', () => {
+    expect(spellMidiNote(73, -1)).toEqual({ step: 'C', alter: 1, octave: 5 });  // C# in D minor
+    expect(spellMidiNote(71, -1)).toEqual({ step: 'B', alter: 0, octave: 4 });  // B natural in D minor
+    expect(spellMidiNote(66, -2)).toEqual({ step: 'F', alter: 1, octave: 4 });  // F# in G minor
+    expect(spellMidiNote(62, -6)).toEqual({ step: 'D', alter: 0, octave: 4 });  // D natural in Eb minor
+    expect(spellMidiNote(68, 0)).toEqual({ step: 'G', alter: 1, octave: 4 });   // G# in A minor
+  });
+
+  it('spells other chromatic notes with sharps in sharp keys and flats in flat keys', () => {
+    expect(spellMidiNote(63, 0)).toEqual({ step: 'D', alter: 1, octave: 4 });
+    expect(spellMidiNote(63, -1)).toEqual({ step: 'E', alter: -1, octave: 4 });
+  });
+
+  it('keeps the written octave for notes spelled across the B-C boundary', () => {
+    expect(spellMidiNote(59, -6)).toEqual({ step: 'C', alter: -1, octave: 4 }); // Cb4 sounds as B3
+    expect(spellMidiNote(60, 7)).toEqual({ step: 'B', alter: 1, octave: 3 });   // B#3 sounds as C4
+  });
+});
+
+describe('sequenceToMusicXml', () => {
+  it('estimates a minor key from its raised leading tone', () => {
+    const score = parseXml(sequenceToMusicXml(D_MINOR));
+
+    expect(descendants(score, 'fifths').map(fifths => fifths.text)).toEqual(['-1']);
+    expect(child(child(score, 'work')!, 'work-title')!.text).toBe('Test &amp; &lt;Friends&gt;');
+  });
+
+  it('uses the key it is given', () => {
+    const score = parseXml(sequenceToMusicXml(D_MINOR, { keyFifths: 2 }));
+
+    expect(descendants(score, 'fifths')[0].text).toBe('2');
+  });
+
+  it('writes soprano and alto on the treble staff and tenor and bass on the bass staff', () => {
+    const score = parseXml(sequenceToMusicXml(D_MINOR));
+    const attributes = descendants(score, 'attributes')[0];
+
+    expect(child(attributes, 'staves')!.text).toBe('2');
+    expect(children(attributes, 'clef').map(clef => [clef.attributes.number, child(clef, 'sign')!.text])).toEqual([
+      ['1', 'G'],
+      ['2', 'F']
+    ]);
+
+    const firstNotes = readNotes(descendants(score, 'measure')[0]).filter(note => note.duration === 12);
+    expect(firstNotes.map(({ pitch, voice, staff }) => [pitch, voice, staff])).toEqual([
+      ['D5', 1, 1],
+      ['A4', 2, 1],
+      ['F4', 3, 2],
+      ['D3', 4, 2]
+    ]);
+  });
+
+  it('ties a note across the barline and spells the leading tone as a sharp', () => {
+    const measures = descendants(parseXml(sequenceToMusicXml(D_MINOR, { keyFifths: -1 })), 'measure');
+    expect(measures).toHaveLength(2);
+
+    const soprano = measures.map(measure => readNotes(measure).filter(note => note.voice === 1));
+    expect(soprano[0]).toEqual([
+      { pitch: 'D5', duration: 12, voice: 1, staff: 1, ties: [] },
+      { pitch: 'C#5', duration: 4, voice: 1, staff: 1, ties: ['start'] }
+    ]);
+    expect(soprano[1]).toEqual([
+      { pitch: 'C#5', duration: 4, voice: 1, staff: 1, ties: ['stop'] },
+      { pitch: 'D5', duration: 8, voice: 1, staff: 1, ties: [] },
+      { pitch: null, duration: 4, voice: 1, staff: 1, ties: [] }
+    ]);
+  });
+
+  it('fills every voice of every measure to the full bar', () => {
+    const measures = descendants(parseXml(sequenceToMusicXml(D_MINOR)), 'measure');
+
+    measures.forEach(measure => {
+      [1, 2, 3, 4].forEach(voice => {
+        const notes = readNotes(measure).filter(note => note.voice === voice);
+        expect(notes.reduce((sum, note) => sum + note.duration, 0)).toBe(16);
+      });
+    });
+  });
+
+  it('writes Cb and B# in the octave they are spelled in', () => {
+    const pitches = (harmony: HarmonyChord, keyFifths: number) =>
+      readNotes(descendants(parseXml(sequenceToMusicXml(makeSequence([0], [harmony]), { keyFifths })), 'measure')[0])
+        .filter(note => note.pitch !== null)
+        .map(note => note.pitch);
+
+    expect(pitches(chord(71, 59, 59, 47), -6)).toEqual(['Cb5', 'Cb4', 'Cb4', 'Cb3']);
+    expect(pitches(chord(72, 60, 48, 36), 7)).toEqual(['B#4', 'B#3', 'B#2', 'B#1']);
+  });
+});
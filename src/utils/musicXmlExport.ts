@@ -0,0 +1,223 @@
+// MusicXML export: SATB on a grand staff (S/A treble, T/B bass)
+import { HarmonySequence, VoiceType, estimateKeyFifths, spellMidiNote } from '../types/harmonizer';
+import { getPartNotes, TimelineOptions } from './sequenceTimeline';
+
+export interface MusicXmlExportOptions extends TimelineOptions {
+  bpm?: number;
+  keyFifths?: number; // Estimated from the sequence when omitted
+}
+
+const DIVISIONS = 4; // Per quarter note, i.e. a sixteenth-note grid
+const MEASURE_LENGTH = 4 * DIVISIONS; // 4/4
+
+// Written note values in divisions, largest first
+const NOTE_VALUES: Array<{ length: number; type: string; dotted: boolean }> = [
+  { length: 16, type: 'whole', dotted: false },
+  { length: 12, type: 'half', dotted: true },
+  { length: 8, type: 'half', dotted: false },
+  { length: 6, type: 'quarter', dotted: true },
+  { length: 4, type: 'quarter', dotted: false },
+  { length: 3, type: 'eighth', dotted: true },
+  { length: 2, type: 'eighth', dotted: false },
+  { length: 1, type: '16th', dotted: false }
+];
+
+const STAFF_LAYOUT: Array<{ part: VoiceType; voice: number; staff: number; stem: 'up' | 'down' }> = [
+  { part: 'soprano', voice: 1, staff: 1, stem: 'up' },
+  { part: 'alto', voice: 2, staff: 1, stem: 'down' },
+  { part: 'tenor', voice: 3, staff: 2, stem: 'up' },
+  { part: 'bass', voice: 4, staff: 2, stem: 'down' }
+];
+
+interface QuantizedNote {
+  midiNote: number | null; // null is a rest
+  start: number;
+  length: number;
+}
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Snap a part to the grid and fill the gaps with rests
+const quantizePart = (
+  sequence: HarmonySequence,
+  part: VoiceType,
+  options: MusicXmlExportOptions,
+  totalLength: number
+): QuantizedNote[] => {
+  const bpm = options.bpm ?? 120;
+  const toDivisions = (ms: number) => Math.round((ms / 1000) * (bpm / 60) * DIVISIONS);
+
+  const result: QuantizedNote[] = [];
+  let position = 0;
+
+  getPartNotes(sequence, part, options).forEach(note => {
+    const start = Math.max(position, toDivisions(note.start));
+    const end = Math.max(start + 1, toDivisions(note.start + note.duration));
+
+    if (start > position) {
+      result.push({ midiNote: null, start: position, length: start - position });
+    }
+    result.push({ midiNote: note.midiNote, start, length: end - start });
+    position = end;
+  });
+
+  if (totalLength > position) {
+    result.push({ midiNote: null, start: position, length: totalLength - position });
+  }
+
+  return result;
+};
+
+// Split a duration within one measure into writable note values
+const splitIntoNoteValues = (length: number) => {
+  const values: typeof NOTE_VALUES = [];
+  let remaining = length;
+  while (remaining > 0) {
+    const value = NOTE_VALUES.find(candidate => candidate.length <= remaining)!;
+    values.push(value);
+    remaining -= value.length;
+  }
+  return values;
+};
+
+const renderNote = (
+  midiNote: number | null,
+  value: typeof NOTE_VALUES[number],
+  layout: typeof STAFF_LAYOUT[number],
+  keyFifths: number,
+  tieStop: boolean,
+  tieStart: boolean
+): string => {
+  const lines: string[] = ['<note>'];
+
+  if (midiNote === null) {
+    lines.push('<rest/>');
+  } else {
+    const { step, alter, octave } = spellMidiNote(midiNote, keyFifths);
+    lines.push(
+      `<pitch><step>${step}</step>${alter !== 0 ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`
+    );
+  }
+
+  lines.push(`<duration>${value.length}</duration>`);
+  if (tieStop) lines.push('<tie type="stop"/>');
+  if (tieStart) lines.push('<tie type="start"/>');
+  lines.push(`<voice>${layout.voice}</voice>`, `<type>${value.type}</type>`);
+  if (value.dotted) lines.push('<dot/>');
+  if (midiNote !== null) lines.push(`<stem>${layout.stem}</stem>`);
+  lines.push(`<staff>${layout.staff}</staff>`);
+
+  if (tieStop || tieStart) {
+    lines.push(
+      '<notations>' +
+      (tieStop ? '<tied type="stop"/>' : '') +
+      (tieStart ? '<tied type="start"/>' : '') +
+      '</notations>'
+    );
+  }
+
+  lines.push('</note>');
+  return lines.join('');
+};
+
+// Notes of one voice falling inside a measure, tied across barlines and note values
+const renderVoiceMeasure = (
+  notes: QuantizedNote[],
+  measureStart: number,
+  layout: typeof STAFF_LAYOUT[number],
+  keyFifths: number
+): string[] => {
+  const measureEnd = measureStart + MEASURE_LENGTH;
+  const rendered: string[] = [];
+
+  notes.forEach(note => {
+    const noteEnd = note.start + note.length;
+    const start = Math.max(note.start, measureStart);
+    const end = Math.min(noteEnd, measureEnd);
+    if (start >= end) return;
+
+    const values = splitIntoNoteValues(end - start);
+    values.forEach((value, i) => {
+      const isNote = note.midiNote !== null;
+      const continuesFromBefore = i > 0 || start > note.start;
+      const continuesAfter = i < values.length - 1 || end < noteEnd;
+      rendered.push(renderNote(
+        note.midiNote,
+        value,
+        layout,
+        keyFifths,
+        isNote && continuesFromBefore,
+        isNote && continuesAfter
+      ));
+    });
+  });
+
+  return rendered;
+};
+
+export const sequenceToMusicXml = (
+  sequence: HarmonySequence,
+  options: MusicXmlExportOptions = {}
+): string => {
+  const keyFifths = options.keyFifths ?? estimateKeyFifths([
+    ...sequence.melody.map(note => note.midiNote),
+    ...sequence.harmonies.flatMap(chord => STAFF_LAYOUT.map(({ part }) => chord[part].midiNote))
+  ]);
+
+  // Quantize every part once to find the overall length
+  const bpm = options.bpm ?? 120;
+  const draftParts = STAFF_LAYOUT.map(({ part }) => quantizePart(sequence, part, options, 0));
+  const contentLength = Math.max(0, ...draftParts.map(notes => {
+    const last = notes[notes.length - 1];
+    return last ? last.start + last.length : 0;
+  }));
+  const measureCount = Math.max(1, Math.ceil(contentLength / MEASURE_LENGTH));
+  const totalLength = measureCount * MEASURE_LENGTH;
+  const parts = STAFF_LAYOUT.map(({ part }) => quantizePart(sequence, part, options, totalLength));
+
+  const measures: string[] = [];
+  for (let m = 0; m < measureCount; m++) {
+    const measureStart = m * MEASURE_LENGTH;
+    const content: string[] = [];
+
+    if (m === 0) {
+      content.push(
+        '<attributes>' +
+        `<divisions>${DIVISIONS}</divisions>` +
+        `<key><fifths>${keyFifths}</fifths></key>` +
+        '<time><beats>4</beats><beat-type>4</beat-type></time>' +
+        '<staves>2</staves>' +
+        '<clef number="1"><sign>G</sign><line>2</line></clef>' +
+        '<clef number="2"><sign>F</sign><line>4</line></clef>' +
+        '</attributes>',
+        '<direction placement="above"><direction-type>' +
+        `<metronome><beat-unit>quarter</beat-unit><per-minute>${bpm}</per-minute></metronome>` +
+        `</direction-type><staff>1</staff><sound tempo="${bpm}"/></direction>`
+      );
+    }
+
+    STAFF_LAYOUT.forEach((layout, i) => {
+      // Rewind to the start of the measure for every voice after the first
+      if (i > 0) content.push(`<backup><duration>${MEASURE_LENGTH}</duration></backup>`);
+      content.push(...renderVoiceMeasure(parts[i], measureStart, layout, keyFifths));
+    });
+
+    measures.push(`<measure number="${m + 1}">${content.join('')}</measure>`);
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `<work><work-title>${escapeXml(sequence.title)}</work-title></work>`,
+    '<part-list><score-part id="P1"><part-name>Choir</part-name></score-part></part-list>',
+    `<part id="P1">${measures.join('')}</part>`,
+    '</score-partwise>'
+  ].join('\n');
+};
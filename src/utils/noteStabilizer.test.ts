@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { NoteStabilizer } from './noteStabilizer';
+import { FRAME_MS, makeJitter } from './testSignals';
+
+describe('NoteStabilizer', () => {
+  it('holds a note for a hand jittering on a band edge', () => {
+    const jitter = makeJitter();
+    const stabilizer = new NoteStabilizer({ hysteresis: 0.25, minDwellMs: 60 });
+    stabilizer.push(2.5, 0);
+
+    const notes = new Set<number>();
+    let rawChanges = 0;
+    let previousRaw = 2;
+    for (let frame = 1; frame <= 300; frame++) {
+      const position = 3 + jitter(0.2); // Straddles the 2|3 boundary, inside the margin
+      notes.add(stabilizer.push(position, frame * FRAME_MS));
+      if (Math.floor(position) !== previousRaw) rawChanges++;
+      previousRaw = Math.floor(position);
+    }
+
+    expect(rawChanges).toBeGreaterThan(50);
+    expect([...notes]).toEqual([2]);
+  });
+
+  it('holds a note under noise that pokes past the margin for less than the dwell', () => {
+    const stabilizer = new NoteStabilizer({ hysteresis: 0.25, minDwellMs: 60 });
+    stabilizer.push(2.5, 0);
+
+    // Every third frame jumps past the margin; none stays there for 60 ms
+    for (let frame = 1; frame <= 90; frame++) {
+      const position = frame % 3 === 0 ? 3.4 : 3.1;
+      expect(stabilizer.push(position, frame * FRAME_MS)).toBe(2);
+    }
+  });
+
+  it('stays inside the hysteresis margin however long the hand rests there', () => {
+    const stabilizer = new NoteStabilizer({ hysteresis: 0.25, minDwellMs: 60 });
+    stabilizer.push(2.5, 0);
+
+    expect(stabilizer.push(3.24, 0)).toBe(2);
+    expect(stabilizer.push(3.24, 5000)).toBe(2);
+    expect(stabilizer.push(1.76, 10000)).toBe(2);
+    expect(stabilizer.pendingDwell(10000)).toBeNull();
+  });
+
+  it('switches only after minDwellMs past the margin', () => {
+    const stabilizer = new NoteStabilizer({ hysteresis: 0.25, minDwellMs: 60 });
+    stabilizer.push(2.5, 0);
+
+    expect(stabilizer.push(3.3, 1000)).toBe(2);
+    expect(stabilizer.pendingDwell(1000)).toBe(60);
+    expect(stabilizer.push(3.3, 1059)).toBe(2);
+    expect(stabilizer.pendingDwell(1059)).toBe(1);
+    expect(stabilizer.push(3.3, 1060)).toBe(3);
+    expect(stabilizer.pendingDwell(1060)).toBeNull();
+  });
+
+  it('restarts the dwell when the hand returns to the current note', () => {
+    const stabilizer = new NoteStabilizer({ hysteresis: 0.25, minDwellMs: 60 });
+    stabilizer.push(2.5, 0);
+
+    stabilizer.push(3.3, 100);
+    stabilizer.push(2.9, 140);
+    expect(stabilizer.push(3.3, 170)).toBe(2);
+    expect(stabilizer.push(3.3, 220)).toBe(2);
+    expect(stabilizer.push(3.3, 230)).toBe(3);
+  });
+
+  it('moves straight to wherever the hand is after a reset', () => {
+    const stabilizer = new NoteStabilizer();
+    stabilizer.push(2.5, 0);
+    stabilizer.reset();
+
+    expect(stabilizer.push(6.1, 10)).toBe(6);
+  });
+});
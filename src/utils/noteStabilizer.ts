@@ -0,0 +1,56 @@
+// Keeps a hand sitting near a note boundary from flickering between the two notes
+
+export interface NoteStabilizerOptions {
+  hysteresis?: number; // Fraction of a note's band the hand must travel past its edge to leave it
+  minDwellMs?: number; // How long a new note must hold before it replaces the current one
+}
+
+export class NoteStabilizer {
+  private hysteresis: number;
+  private minDwellMs: number;
+  private current: number | null = null;
+  private candidate: number | null = null;
+  private candidateSince = 0;
+
+  constructor(options: NoteStabilizerOptions = {}) {
+    this.hysteresis = options.hysteresis ?? 0.25;
+    this.minDwellMs = options.minDwellMs ?? 60;
+  }
+
+  // `position` is in note bands (band i covers [i, i + 1)); returns the index of the note to play
+  push(position: number, time: number): number {
+    const index = Math.floor(position);
+
+    if (this.current === null) {
+      this.current = index;
+      return index;
+    }
+
+    // Inside the current band, widened by the hysteresis margin on both sides
+    if (position >= this.current - this.hysteresis && position < this.current + 1 + this.hysteresis) {
+      this.candidate = null;
+      return this.current;
+    }
+
+    if (index !== this.candidate) {
+      this.candidate = index;
+      this.candidateSince = time;
+    }
+    if (time - this.candidateSince >= this.minDwellMs) {
+      this.current = index;
+      this.candidate = null;
+    }
+    return this.current;
+  }
+
+  // Milliseconds until the pending note takes over if the position stays put, or null if none is pending
+  pendingDwell(time: number): number | null {
+    if (this.candidate === null) return null;
+    return Math.max(0, this.minDwellMs - (time - this.candidateSince));
+  }
+
+  reset(): void {
+    this.current = null;
+    this.candidate = null;
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './offlineRender';
+
+// The parts of AudioBuffer encodeWav reads, so no audio context is needed
+const makeBuffer = (channels: number[][], sampleRate = 44100) => ({
+  numberOfChannels: channels.length,
+  sampleRate,
+  length: channels[0].length,
+  getChannelData: (channel: number) => Float32Array.from(channels[channel])
+}) as unknown as AudioBuffer;
+
+const readWav = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+const readInt24 = (view: DataView, offset: number) => {
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+};
+
+describe('encodeWav', () => {
+  it('writes a PCM header that describes the data', async () => {
+    const view = await readWav(encodeWav(makeBuffer([[0, 0, 0], [0, 0, 0]], 48000), 24));
+
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);           // PCM
+    expect(view.getUint16(22, true)).toBe(2);           // Channels
+    expect(view.getUint32(24, true)).toBe(48000);       // Sample rate
+    expect(view.getUint32(28, true)).toBe(48000 * 6);   // Byte rate
+    expect(view.getUint16(32, true)).toBe(6);           // Block align
+    expect(view.getUint16(34, true)).toBe(24);          // Bits per sample
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(3 * 6);
+    expect(view.byteLength).toBe(44 + 3 * 6);
+  });
+
+  it('packs 16-bit samples little-endian, interleaved and clipped', async () => {
+    const view = await readWav(encodeWav(makeBuffer([[1, -1, 0.5, 2], [0, -0.5, -2, 0.25]]), 16));
+    const samples = Array.from({ length: 8 }, (_, i) => view.getInt16(44 + i * 2, true));
+
+    expect(samples).toEqual([32767, 0, -32767, -16383, 16384, -32767, 32767, 8192]);
+  });
+
+  it('packs 24-bit samples in three bytes, negative values included', async () => {
+    const view = await readWav(encodeWav(makeBuffer([[1, -1, 0.5, -0.5, -1 / 8388607]]), 24));
+    const samples = Array.from({ length: 5 }, (_, i) => readInt24(view, 44 + i * 3));
+
+    expect(samples).toEqual([8388607, -8388607, 4194304, -4194303, -1]);
+    // Two's complement: -1 is all ones
+    expect([view.getUint8(56), view.getUint8(57), view.getUint8(58)]).toEqual([0xff, 0xff, 0xff]);
+  });
+});
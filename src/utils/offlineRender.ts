@@ -0,0 +1,105 @@
+// Offline (faster than real time) rendering of sequences to WAV
+import { HarmonySequence } from '../types/harmonizer';
+import { VocalAudioEngine } from './audioEngine';
+import { InstrumentSelection } from './instruments';
+import { DEFAULT_EFFECTS, EffectsSettings } from './effectsChain';
+import { getStepTimes, TimelineOptions } from './sequenceTimeline';
+
+export type WavBitDepth = 16 | 24;
+
+export interface RenderOptions extends TimelineOptions {
+  sampleRate?: number;
+  channels?: 1 | 2;
+  tail?: number; // Seconds of silence after the last note for the release
+  instruments?: InstrumentSelection; // Defaults to the choir on every part
+  effects?: EffectsSettings;         // Defaults to the default master chain
+}
+
+export interface WavRenderOptions extends RenderOptions {
+  bitDepth?: WavBitDepth;
+}
+
+export const renderSequenceToBuffer = async (
+  sequence: HarmonySequence,
+  options: RenderOptions = {}
+): Promise<AudioBuffer> => {
+  const sampleRate = options.sampleRate ?? 44100;
+  const channels = options.channels ?? 2;
+  // By default leave room for the release and any reverb to die away
+  const { reverb } = options.effects ?? DEFAULT_EFFECTS;
+  const tail = options.tail ?? (reverb.bypass ? 0.5 : Math.max(0.5, reverb.decay));
+
+  const steps = getStepTimes(sequence, options);
+  const lastStep = steps[steps.length - 1];
+  const duration = (lastStep ? (lastStep.start + lastStep.duration) / 1000 : 0) + tail;
+
+  const context = new OfflineAudioContext(channels, Math.max(1, Math.ceil(duration * sampleRate)), sampleRate);
+  const engine = new VocalAudioEngine(context);
+  if (options.instruments) {
+    engine.setInstruments(options.instruments);
+  }
+  if (options.effects) {
+    engine.setEffects(options.effects);
+  }
+  await engine.initialize();
+  await engine.playSequence(sequence, 0, options);
+
+  return context.startRendering();
+};
+
+// PCM WAV with interleaved channels, little-endian
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob => {
+  const bytesPerSample = bitDepth / 8;
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);         // fmt chunk size
+  view.setUint16(20, 1, true);          // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const maxValue = Math.pow(2, bitDepth - 1) - 1;
+  let offset = 44;
+
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numberOfChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][i]));
+      const value = Math.round(sample * maxValue);
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
+
+export const renderSequenceToWav = async (
+  sequence: HarmonySequence,
+  options: WavRenderOptions = {}
+): Promise<Blob> => {
+  const buffer = await renderSequenceToBuffer(sequence, options);
+  return encodeWav(buffer, options.bitDepth);
+};
@@ -0,0 +1,154 @@
+// Records the master bus together with a log of the gestures that produced it
+import { HarmonyChord } from '../types/harmonizer';
+import {
+  HandPosition,
+  HandPreference,
+  PerformanceFrame,
+  PerformanceLog,
+  VolumeHand
+} from '../types/performance';
+import { audioEngine, VocalAudioEngine } from './audioEngine';
+
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface PerformanceRecording {
+  audio: Blob;
+  performance: PerformanceLog;
+}
+
+export class PerformanceRecorder {
+  private engine: VocalAudioEngine;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startTime = 0;
+  private recordedAt = new Date();
+  private handPreference: HandPreference = null;
+  private frames: PerformanceLog['frames'] = [];
+  private chords: PerformanceLog['chords'] = [];
+
+  constructor(engine: VocalAudioEngine = audioEngine) {
+    this.engine = engine;
+  }
+
+  get isRecording(): boolean {
+    return this.mediaRecorder?.state === 'recording';
+  }
+
+  async start(handPreference: HandPreference): Promise<void> {
+    if (this.isRecording) return;
+
+    const stream = await this.engine.getOutputStream();
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+    this.mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.frames = [];
+    this.chords = [];
+    this.handPreference = handPreference;
+    this.recordedAt = new Date();
+
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+
+    this.mediaRecorder.start();
+    this.startTime = performance.now();
+  }
+
+  logHands(controlHand: HandPosition, volumeHand: VolumeHand): void {
+    if (!this.isRecording) return;
+    this.frames.push({ time: this.elapsed(), controlHand: { ...controlHand }, volumeHand: { ...volumeHand } });
+  }
+
+  logChord(chord: HarmonyChord): void {
+    if (!this.isRecording) return;
+    this.chords.push({ time: this.elapsed(), chord });
+  }
+
+  stop(): Promise<PerformanceRecording> {
+    const recorder = this.mediaRecorder;
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.reject(new Error('Not recording'));
+    }
+
+    const duration = this.elapsed();
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        this.mediaRecorder = null;
+        resolve({
+          audio: new Blob(this.chunks, { type: recorder.mimeType }),
+          performance: {
+            version: 1,
+            recordedAt: this.recordedAt.toISOString(),
+            handPreference: this.handPreference,
+            duration,
+            frames: this.frames,
+            chords: this.chords
+          }
+        });
+      };
+      recorder.stop();
+    });
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startTime);
+  }
+}
+
+// Plays a recorded gesture log back in real time, frame by frame
+export class PerformanceReplayer {
+  private log: PerformanceLog;
+  private onFrame: (frame: PerformanceFrame) => void;
+  private onFinished: () => void;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private startTime = 0;
+  private nextFrame = 0;
+
+  constructor(log: PerformanceLog, onFrame: (frame: PerformanceFrame) => void, onFinished: () => void) {
+    this.log = log;
+    this.onFrame = onFrame;
+    this.onFinished = onFinished;
+  }
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    this.stop();
+    this.nextFrame = 0;
+    this.startTime = performance.now();
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext(): void {
+    const frame = this.log.frames[this.nextFrame];
+    if (!frame) {
+      this.timer = null;
+      this.onFinished();
+      return;
+    }
+
+    const delay = Math.max(0, frame.time - (performance.now() - this.startTime));
+    this.timer = setTimeout(() => {
+      this.nextFrame++;
+      this.onFrame(frame);
+      this.scheduleNext();
+    }, delay);
+  }
+}
+
+export const getRecordingExtension = (mimeType: string): string => {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+};
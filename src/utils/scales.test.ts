@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { NoteStabilizer } from './noteStabilizer';
+import { getScaleNotes, pitchToScaleNote, scaleIndexToPitch } from './scales';
+
+const C_MAJOR = getScaleNotes({ root: 0, mode: 'major', low: 60, high: 72 }); // C4 to C5, eight notes
+
+// Share of the pitch range that plays each note, sampled finely
+const bandWidths = (scaleNotes: number[]) => {
+  const steps = 10000;
+  const counts = new Map<number, number>();
+  for (let i = 0; i <= steps; i++) {
+    const note = pitchToScaleNote(i / steps, scaleNotes);
+    counts.set(note, (counts.get(note) ?? 0) + 1);
+  }
+  return scaleNotes.map(note => (counts.get(note) ?? 0) / (steps + 1));
+};
+
+describe('pitchToScaleNote', () => {
+  it('gives every note, the top one included, an equal share of the range', () => {
+    bandWidths(C_MAJOR).forEach(width => expect(width).toBeCloseTo(1 / C_MAJOR.length, 3));
+  });
+
+  it('splits a two-note scale down the middle', () => {
+    expect(pitchToScaleNote(0.49, [60, 72])).toBe(60);
+    expect(pitchToScaleNote(0.5, [60, 72])).toBe(72);
+    expect(bandWidths([60, 72])).toEqual([expect.closeTo(0.5, 3), expect.closeTo(0.5, 3)]);
+  });
+
+  it('clamps pitches outside 0-1 to the end notes', () => {
+    expect(pitchToScaleNote(-0.2, C_MAJOR)).toBe(60);
+    expect(pitchToScaleNote(1, C_MAJOR)).toBe(72);
+    expect(pitchToScaleNote(1.3, C_MAJOR)).toBe(72);
+  });
+});
+
+describe('scaleIndexToPitch', () => {
+  it('points at the centre of the band that plays each note', () => {
+    C_MAJOR.forEach((note, index) => {
+      const pitch = scaleIndexToPitch(index, C_MAJOR.length);
+      const halfBand = 0.5 / C_MAJOR.length;
+
+      expect(pitchToScaleNote(pitch, C_MAJOR)).toBe(note);
+      expect(pitchToScaleNote(pitch - halfBand * 0.99, C_MAJOR)).toBe(note);
+      expect(pitchToScaleNote(pitch + halfBand * 0.99, C_MAJOR)).toBe(note);
+    });
+  });
+
+  it('keeps the top label inside the range', () => {
+    expect(scaleIndexToPitch(C_MAJOR.length - 1, C_MAJOR.length)).toBeCloseTo(1 - 0.5 / C_MAJOR.length);
+    expect(scaleIndexToPitch(1, 2)).toBe(0.75);
+  });
+
+  it('lands on the same note through the stabilizer, fed the band position', () => {
+    C_MAJOR.forEach((note, index) => {
+      const stabilizer = new NoteStabilizer();
+      const position = scaleIndexToPitch(index, C_MAJOR.length) * C_MAJOR.length;
+
+      expect(stabilizer.push(position, 0)).toBe(index);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// Scale/key model used to quantize hand position to melody notes
+import { isValidMidiNote, spellMidiNote } from '../types/harmonizer';
+
+export type ScaleMode =
+  | 'major'
+  | 'naturalMinor'
+  | 'harmonicMinor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian'
+  | 'majorPentatonic'
+  | 'minorPentatonic'
+  | 'chromatic';
+
+// `parentOffset` is the mode's distance above its relative major, used for spelling
+export const SCALE_MODES: Record<ScaleMode, { name: string; intervals: number[]; parentOffset: number }> = {
+  major: { name: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11], parentOffset: 0 },
+  naturalMinor: { name: 'Minor', intervals: [0, 2, 3, 5, 7, 8, 10], parentOffset: 9 },
+  harmonicMinor: { name: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11], parentOffset: 9 },
+  dorian: { name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10], parentOffset: 2 },
+  phrygian: { name: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10], parentOffset: 4 },
+  lydian: { name: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11], parentOffset: 5 },
+  mixolydian: { name: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10], parentOffset: 7 },
+  locrian: { name: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10], parentOffset: 11 },
+  majorPentatonic: { name: 'Major Pentatonic', intervals: [0, 2, 4, 7, 9], parentOffset: 0 },
+  minorPentatonic: { name: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10], parentOffset: 9 },
+  chromatic: { name: 'Chromatic', intervals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], parentOffset: 0 }
+};
+
+export interface ScaleConfig {
+  root: number; // Pitch class, index into NOTE_NAMES
+  mode: ScaleMode;
+  low: number;  // Lowest MIDI note the hand can reach
+  high: number; // Highest MIDI note the hand can reach
+}
+
+// Melody notes the harmonizer model has been trained on
+export const MELODY_RANGE = { min: 48, max: 84 } as const; // C3 to C6
+
+// White keys from C4 to E5, the original fixed mapping
+export const DEFAULT_SCALE: ScaleConfig = { root: 0, mode: 'major', low: 60, high: 76 };
+
+export const getScaleNotes = (config: ScaleConfig): number[] => {
+  const { intervals } = SCALE_MODES[config.mode];
+  const notes: number[] = [];
+
+  for (let midi = config.low; midi <= config.high; midi++) {
+    const degree = ((midi - config.root) % 12 + 12) % 12;
+    if (intervals.includes(degree) && isValidMidiNote(midi)) {
+      notes.push(midi);
+    }
+  }
+
+  return notes;
+};
+
+// Returns a description of the problem, or null if the scale can be played
+export const validateScaleConfig = (config: ScaleConfig): string | null => {
+  if (!Number.isInteger(config.root) || config.root < 0 || config.root > 11) {
+    return 'Root must be one of the twelve pitch classes';
+  }
+  if (!(config.mode in SCALE_MODES)) {
+    return `Unknown scale mode "${config.mode}"`;
+  }
+  if (!isValidMidiNote(config.low) || !isValidMidiNote(config.high)) {
+    return 'Range must be within the piano range';
+  }
+  if (config.low < MELODY_RANGE.min || config.high > MELODY_RANGE.max) {
+    return 'Range is outside what the harmonizer can sing';
+  }
+  if (config.low >= config.high) {
+    return 'Lowest note must be below the highest note';
+  }
+  if (getScaleNotes(config).length < 2) {
+    return 'Range must contain at least two scale notes';
+  }
+  return null;
+};
+
+// Map pitch (0-1) to a discrete note of the scale; every note gets an equal band, and pitch 1
+// belongs to the top one
+export const pitchToScaleNote = (pitch: number, scaleNotes: number[]): number => {
+  const clamped = Math.max(0, Math.min(1, pitch));
+  const keyIndex = Math.min(scaleNotes.length - 1, Math.floor(clamped * scaleNotes.length));
+  return scaleNotes[keyIndex];
+};
+
+// 1-based scale degree of a note, or null for notes outside the scale
+export const getScaleDegree = (midi: number, config: ScaleConfig): number | null => {
+  const interval = ((midi - config.root) % 12 + 12) % 12;
+  const index = SCALE_MODES[config.mode].intervals.indexOf(interval);
+  return index === -1 ? null : index + 1;
+};
+
+// Key signature of the scale's relative major, as circle-of-fifths position
+export const getScaleKeyFifths = (config: ScaleConfig): number => {
+  if (config.mode === 'chromatic') return 0;
+
+  const parentTonic = ((config.root - SCALE_MODES[config.mode].parentOffset) % 12 + 12) % 12;
+  const fifths = (parentTonic * 7) % 12;
+  // Prefer flats for F, Bb, Eb, Ab, Db
+  return fifths > 6 ? fifths - 12 : fifths;
+};
+
+export const formatScaleNote = (midi: number, config: ScaleConfig): string => {
+  const { step, alter, octave } = spellMidiNote(midi, getScaleKeyFifths(config));
+  const accidental = alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter);
+  return `${step}${accidental}${octave}`;
+};
+
+export const formatScaleName = (config: ScaleConfig): string => {
+  const rootName = formatScaleNote(config.root + 60, config).replace(/\d+$/, '');
+  return `${rootName} ${SCALE_MODES[config.mode].name}`;
+};
+
+// Pitch (0-1) at the centre of the band that plays the note at `index`; the inverse of pitchToScaleNote
+export const scaleIndexToPitch = (index: number, noteCount: number): number => {
+  return (index + 0.5) / noteCount;
+};
+
+// Map pitch (0-1) to a fractional MIDI note that glides between neighbouring scale notes
+export const pitchToScalePosition = (pitch: number, scaleNotes: number[]): number => {
+  const clamped = Math.max(0, Math.min(1, pitch));
+  const position = clamped * (scaleNotes.length - 1);
+  const index = Math.min(scaleNotes.length - 2, Math.floor(position));
+  const fraction = position - index;
+  return scaleNotes[index] + (scaleNotes[index + 1] - scaleNotes[index]) * fraction;
+};
+
+export const nearestScaleNote = (midi: number, scaleNotes: number[]): number => {
+  return scaleNotes.reduce((nearest, note) => Math.abs(note - midi) < Math.abs(nearest - midi) ? note : nearest);
+};
+
+// Move a note by octaves until it lies within [low, high]
+export const foldIntoRange = (midi: number, low: number, high: number): number => {
+  let note = midi;
+  while (note < low) note += 12;
+  while (note > high) note -= 12;
+  return note < low ? low : note;
+};
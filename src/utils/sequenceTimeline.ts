@@ -0,0 +1,77 @@
+// Timing helpers shared by the sequence exporters
+import { HarmonySequence, VoiceType } from '../types/harmonizer';
+
+export type SequencePart = 'melody' | VoiceType;
+
+export const SEQUENCE_PARTS: SequencePart[] = ['melody', 'soprano', 'alto', 'tenor', 'bass'];
+
+export interface TimedNote {
+  midiNote: number;
+  start: number;    // ms from the first melody note
+  duration: number; // ms
+}
+
+export interface TimelineOptions {
+  lastNoteDuration?: number; // ms, the final note has no following timestamp
+}
+
+const DEFAULT_LAST_NOTE_DURATION = 1000;
+
+// Start/duration of every melody step, derived from MelodyNote.timestamp
+export const getStepTimes = (
+  sequence: HarmonySequence,
+  options: TimelineOptions = {}
+): Array<{ start: number; duration: number }> => {
+  const { melody } = sequence;
+  if (melody.length === 0) return [];
+
+  const origin = melody[0].timestamp;
+  const lastNoteDuration = options.lastNoteDuration ?? DEFAULT_LAST_NOTE_DURATION;
+
+  // Guard against out-of-order timestamps: a step never starts before the one ahead of it
+  let previousStart = 0;
+  const starts = melody.map(note => {
+    previousStart = Math.max(previousStart, note.timestamp - origin);
+    return previousStart;
+  });
+
+  return starts.map((start, i) => ({
+    start,
+    duration: i + 1 < starts.length ? starts[i + 1] - start : lastNoteDuration
+  }));
+};
+
+// Notes for one part, with tied steps merged into the note they continue
+export const getPartNotes = (
+  sequence: HarmonySequence,
+  part: SequencePart,
+  options: TimelineOptions = {}
+): TimedNote[] => {
+  const steps = getStepTimes(sequence, options);
+  const notes: TimedNote[] = [];
+
+  const stepCount = part === 'melody'
+    ? steps.length
+    : Math.min(steps.length, sequence.harmonies.length);
+
+  for (let i = 0; i < stepCount; i++) {
+    const { start, duration } = steps[i];
+
+    if (part === 'melody') {
+      notes.push({ midiNote: sequence.melody[i].midiNote, start, duration });
+      continue;
+    }
+
+    const { midiNote, tie } = sequence.harmonies[i][part];
+    const previous = notes[notes.length - 1];
+
+    // A tie only holds the previous note if it is the same pitch and still sounding
+    if (tie && previous && previous.midiNote === midiNote && previous.start + previous.duration === start) {
+      previous.duration += duration;
+    } else {
+      notes.push({ midiNote, start, duration });
+    }
+  }
+
+  return notes;
+};
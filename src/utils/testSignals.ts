@@ -0,0 +1,16 @@
+// Shared by the specs that feed synthetic, noisy readings through smoothing and detection
+
+export const FRAME_MS = 1000 / 30; // The tracker's frame interval
+
+// Deterministic jitter in [-amount, amount], from a seeded linear congruential generator
+export const makeJitter = (seed = 1) => (amount: number) => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return amount * (seed / 0x3fffffff - 1);
+};
+
+export const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const variance = (values: number[]) => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+};
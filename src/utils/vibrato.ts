@@ -0,0 +1,91 @@
+// Splits a wobbling hand position into a steady pitch plus vibrato depth and rate
+
+export interface VibratoEstimate {
+  center: number; // Smoothed pitch, in (fractional) MIDI notes
+  depth: number;  // Peak deviation in cents
+  rate: number;   // Oscillations per second
+}
+
+export interface VibratoTrackerOptions {
+  windowMs?: number;     // How much history to analyse
+  minDepth?: number;     // Cents; smaller wobbles are treated as tracking noise
+  maxDepth?: number;     // Cents
+  minRate?: number;      // Hz; slower movement is a glide, not vibrato
+  maxRate?: number;      // Hz
+}
+
+interface Sample {
+  value: number;
+  time: number;
+}
+
+export class VibratoTracker {
+  private samples: Sample[] = [];
+  private windowMs: number;
+  private minDepth: number;
+  private maxDepth: number;
+  private minRate: number;
+  private maxRate: number;
+
+  constructor(options: VibratoTrackerOptions = {}) {
+    this.windowMs = options.windowMs ?? 500;
+    this.minDepth = options.minDepth ?? 8;
+    this.maxDepth = options.maxDepth ?? 100;
+    this.minRate = options.minRate ?? 2;
+    this.maxRate = options.maxRate ?? 10;
+  }
+
+  // Add a pitch reading (MIDI notes) taken at `time` (ms)
+  push(value: number, time: number): VibratoEstimate {
+    this.samples.push({ value, time });
+    while (this.samples.length > 0 && time - this.samples[0].time > this.windowMs) {
+      this.samples.shift();
+    }
+
+    const duration = (time - this.samples[0].time) / 1000;
+    if (this.samples.length < 4 || duration <= 0) {
+      return { center: value, depth: 0, rate: 0 };
+    }
+
+    // Remove the linear trend so a steady glide doesn't register as vibrato
+    const trend = this.fitLine();
+    const deviations = this.samples.map(sample => sample.value - (trend.offset + trend.slope * sample.time));
+
+    let crossings = 0;
+    for (let i = 1; i < deviations.length; i++) {
+      if ((deviations[i - 1] < 0) !== (deviations[i] < 0)) crossings++;
+    }
+
+    const rms = Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / deviations.length);
+    const depth = rms * Math.SQRT2 * 100; // Peak of a sine with this RMS, in cents
+    const rate = crossings / 2 / duration;
+
+    if (depth < this.minDepth || rate < this.minRate || rate > this.maxRate) {
+      return { center: value, depth: 0, rate: 0 };
+    }
+
+    // While vibrato is detected, the steady pitch is the trend line through the wobble
+    return { center: trend.offset + trend.slope * time, depth: Math.min(depth, this.maxDepth), rate };
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  // Least-squares line through the samples
+  private fitLine(): { offset: number; slope: number } {
+    const n = this.samples.length;
+    const meanTime = this.samples.reduce((sum, s) => sum + s.time, 0) / n;
+    const meanValue = this.samples.reduce((sum, s) => sum + s.value, 0) / n;
+
+    let covariance = 0;
+    let variance = 0;
+    this.samples.forEach(({ time, value }) => {
+      covariance += (time - meanTime) * (value - meanValue);
+      variance += (time - meanTime) * (time - meanTime);
+    });
+
+    const slope = variance === 0 ? 0 : covariance / variance;
+    return { offset: meanValue - slope * meanTime, slope };
+  }
+}